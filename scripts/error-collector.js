@@ -0,0 +1,63 @@
+// Local collector for ErrorReporter batches
+//
+//   npm run collect-errors
+//   VITE_ERROR_ENDPOINT=/__errors npm run dev
+//
+// POST /errors stores a batch and logs one line per report; GET /errors
+// returns everything received since the collector started.
+import { createServer } from 'node:http'
+
+const PORT = Number(process.env.PORT ?? 4319)
+const batches = []
+
+const server = createServer((req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*')
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type')
+
+  const { pathname } = new URL(req.url ?? '/', 'http://localhost')
+  if (pathname !== '/errors') {
+    res.writeHead(404).end()
+    return
+  }
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end()
+    return
+  }
+  if (req.method === 'GET') {
+    res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(batches, null, 2))
+    return
+  }
+  if (req.method !== 'POST') {
+    res.writeHead(405).end()
+    return
+  }
+
+  let body = ''
+  req.setEncoding('utf8')
+  req.on('data', (chunk) => {
+    body += chunk
+  })
+  req.on('end', () => {
+    let batch
+    try {
+      batch = JSON.parse(body)
+    } catch {
+      res.writeHead(400).end()
+      return
+    }
+
+    batches.push(batch)
+    for (const report of batch.reports ?? []) {
+      console.log(
+        `[${new Date(batch.sentAt).toISOString()}] ${report.code} ×${report.count} ${report.message}` +
+        ` (${report.breadcrumbs?.length ?? 0} breadcrumbs, ${report.fingerprint})`
+      )
+    }
+    res.writeHead(204).end()
+  })
+})
+
+server.listen(PORT, () => {
+  console.log(`Error collector listening on http://localhost:${PORT}/errors`)
+})
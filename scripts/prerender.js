@@ -0,0 +1,58 @@
+// Renders every static route to HTML after `vite build`
+//
+//   vite build && vite build --ssr src/entry-server.tsx --outDir dist/server
+//   node scripts/prerender.js
+//
+// Each route is written to dist/<path>/index.html with its own <title> and
+// meta tags, and an unknown URL to dist/404.html. The client hydrates the
+// markup instead of rendering from scratch. dist/server is removed afterwards.
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises'
+import { dirname, join, resolve } from 'node:path'
+import { pathToFileURL } from 'node:url'
+
+// Production React, as in the client bundle
+process.env.NODE_ENV ??= 'production'
+
+const dist = resolve('dist')
+const serverDir = join(dist, 'server')
+
+const template = await readFile(join(dist, 'index.html'), 'utf8')
+const { render, prerenderPaths } = await import(pathToFileURL(join(serverDir, 'entry-server.js')).href)
+
+function toDocument({ html, head }) {
+  return template
+    .replace(/<title>[\s\S]*?<\/title>/, (title) => head.includes('<title>') ? head : `${title}\n  ${head}`)
+    .replace('<div id="root"></div>', `<div id="root">${html}</div>`)
+}
+
+async function write(file, page) {
+  await mkdir(dirname(file), { recursive: true })
+  await writeFile(file, toDocument(page))
+}
+
+let failed = false
+
+for (const path of prerenderPaths()) {
+  try {
+    const page = await render(path)
+    if (page.status !== 200) {
+      throw new Error(`status ${page.status}`)
+    }
+    await write(join(dist, path, 'index.html'), page)
+    console.log(`prerendered ${path}`)
+    for (const error of page.errors) {
+      console.warn(`  ${path} rendered with an error, left to the client:`, error instanceof Error ? error.message : error)
+    }
+  } catch (error) {
+    failed = true
+    console.error(`failed to prerender ${path}:`, error)
+  }
+}
+
+await write(join(dist, '404.html'), await render('/__not-found__'))
+console.log('prerendered 404.html')
+
+await rm(serverDir, { recursive: true, force: true })
+
+// Timers left by page data (query caches, mock latency) would keep node alive
+process.exit(failed ? 1 : 0)
@@ -0,0 +1,36 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest'
+import { prerenderPaths, render } from './entry-server'
+
+describe('prerendering', () => {
+  it('lists every static route', () => {
+    const paths = prerenderPaths()
+
+    expect(paths).toEqual(expect.arrayContaining(['/', '/about', '/react19']))
+    expect(paths.some(path => path.includes('$'))).toBe(false)
+  })
+
+  it('renders a route with its own head', async () => {
+    const page = await render('/about')
+
+    expect(page.status).toBe(200)
+    expect(page.html).toContain('<main class="main-content">')
+    expect(page.html).toContain('class="hero__title"')
+    expect(page.head).toMatch(/<title>[^<]+ \| React 19 Showcase<\/title>/)
+    expect(page.errors).toEqual([])
+  })
+
+  it('leaves out canonical and og:url tags without VITE_SITE_URL', async () => {
+    const page = await render('/about')
+
+    expect(page.head).not.toContain('rel="canonical"')
+    expect(page.head).not.toContain('og:url')
+  })
+
+  it('renders unknown URLs as a 404 with the default head', async () => {
+    const page = await render('/__not-found__')
+
+    expect(page.status).toBe(404)
+    expect(page.head).toContain('<title>React 19 Showcase</title>')
+  })
+})
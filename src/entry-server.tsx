@@ -0,0 +1,58 @@
+// Server entry for `npm run build`, used by scripts/prerender.js
+import { createMemoryHistory, RouterProvider } from '@tanstack/react-router'
+import { StrictMode } from 'react'
+import { prerenderToNodeStream } from 'react-dom/static'
+import { HeadAPI } from './lib/api/head'
+import { createAppRouter, headTags, router as appRouter } from './routes'
+
+export interface RenderResult {
+  html: string
+  // <title>, <meta> and canonical <link> tags for the page's <head>
+  head: string
+  status: number
+  // Errors React recovered from by leaving that part to the client
+  errors: unknown[]
+}
+
+/**
+ * Paths of every static route; routes with params are skipped as there is
+ * nothing to fill them with
+ */
+export function prerenderPaths(): string[] {
+  return appRouter.flatRoutes
+    .map(route => route.fullPath as string)
+    .filter(path => !path.includes('$'))
+}
+
+const decoder = new TextDecoder()
+
+/**
+ * Render one URL to HTML, waiting for Suspense data so pages ship complete
+ */
+export async function render(url: string): Promise<RenderResult> {
+  const router = createAppRouter({
+    history: createMemoryHistory({ initialEntries: [url] }),
+  })
+  await router.load()
+
+  const errors: unknown[] = []
+  const { prelude } = await prerenderToNodeStream(
+    <StrictMode>
+      <RouterProvider router={router} />
+    </StrictMode>,
+    { onError: (error) => { errors.push(error) } },
+  )
+
+  // A node Readable; typed as an empty interface without @types/node
+  let html = ''
+  for await (const chunk of prelude as unknown as AsyncIterable<Uint8Array>) {
+    html += decoder.decode(chunk, { stream: true })
+  }
+
+  return {
+    html: html + decoder.decode(),
+    head: HeadAPI.render(headTags(router.state.matches)),
+    status: router.state.statusCode,
+    errors,
+  }
+}
@@ -0,0 +1,327 @@
+import { act, Suspense } from 'react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DataManagementAPI } from '../lib/api/data-management';
+import { cursorPagination } from '../lib/api/infinite-query';
+import { createMockTransport, type MockHandler } from '../lib/api/transport';
+import { IntersectionAPI } from '../lib/api/web-platform';
+import { HTTPError, type ValidationRules } from '../lib/error-handling';
+import { cleanup, render, settle } from '../test/render';
+import { useAdvancedForm, useInfiniteQuery, useOptimisticMutation, useQuery } from './useAdvancedAPIs';
+
+afterEach(() => {
+  cleanup();
+  vi.restoreAllMocks();
+});
+
+describe('useQuery', () => {
+  function itemsClient() {
+    const handler = vi.fn(() => ({ body: [{ id: 1, title: 'First' }], delay: 5 }));
+    const client = new DataManagementAPI({ transport: createMockTransport({ 'GET /api/items': handler }) });
+    return { client, handler };
+  }
+
+  function Items({ client, suspense }: { client: DataManagementAPI; suspense?: boolean }) {
+    const { data } = useQuery<{ id: number; title: string }[]>('/items', { client, suspense });
+    return <p>{data ? data.map(item => item.title).join(', ') : 'Loading'}</p>;
+  }
+
+  it('sends one request for a mount', async () => {
+    const { client, handler } = itemsClient();
+
+    const { container } = await render(<Items client={client} />);
+    await settle();
+
+    expect(container.textContent).toBe('First');
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends one request for a suspending mount', async () => {
+    const { client, handler } = itemsClient();
+
+    const { container } = await render(
+      <Suspense fallback={<p>Suspended</p>}>
+        <Items client={client} suspense />
+      </Suspense>
+    );
+    await settle();
+
+    expect(container.textContent).toBe('First');
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('useInfiniteQuery', () => {
+  interface Page {
+    items: string[];
+    next: string | null;
+  }
+
+  type InfiniteQuery = ReturnType<typeof useInfiniteQuery<Page, string | null>>;
+
+  // Two pages per search term, answered after `delay` ms
+  function pagesClient(delay = 0) {
+    const handler = vi.fn<MockHandler>(({ url }) => {
+      const search = new URL(url, 'http://localhost').searchParams;
+      const q = search.get('q') ?? 'all';
+      const body: Page = search.get('cursor')
+        ? { items: [`${q} 2`], next: null }
+        : { items: [`${q} 1`], next: 'second' };
+      return { body, delay };
+    });
+    const client = new DataManagementAPI({ transport: createMockTransport({ 'GET /api/items': handler }) });
+    return { client, handler };
+  }
+
+  interface ListProps {
+    client: DataManagementAPI;
+    current: { hook: InfiniteQuery };
+    q?: string;
+    sentinel?: boolean;
+  }
+
+  // Renders the hook, optionally with its sentinel, and exposes its latest result
+  function List({ client, current, q, sentinel }: ListProps) {
+    current.hook = useInfiniteQuery('/items', {
+      client,
+      params: { q },
+      pagination: cursorPagination<Page>(page => page.next),
+    });
+    return sentinel ? <div ref={current.hook.sentinelRef} /> : null;
+  }
+
+  const items = (hook: InfiniteQuery) => hook.pages.flatMap(page => page.items);
+
+  it('tracks pages and hasNextPage as fetchNextPage loads them', async () => {
+    const { client, handler } = pagesClient();
+    const current = {} as { hook: InfiniteQuery };
+
+    await render(<List client={client} current={current} />);
+    await settle();
+    expect(items(current.hook)).toEqual(['all 1']);
+    expect(current.hook.data?.pageParams).toEqual([null]);
+    expect(current.hook.hasNextPage).toBe(true);
+
+    await act(() => current.hook.fetchNextPage());
+
+    expect(items(current.hook)).toEqual(['all 1', 'all 2']);
+    expect(current.hook.data?.pageParams).toEqual([null, 'second']);
+    expect(current.hook.hasNextPage).toBe(false);
+    expect(current.hook.isFetchingNextPage).toBe(false);
+
+    await act(() => current.hook.fetchNextPage());
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps the previous pages while new params load', async () => {
+    const { client } = pagesClient(20);
+    const current = {} as { hook: InfiniteQuery };
+
+    const { rerender } = await render(<List client={client} q="a" current={current} />);
+    await settle(40);
+    expect(items(current.hook)).toEqual(['a 1']);
+
+    await rerender(<List client={client} q="b" current={current} />);
+    expect(items(current.hook)).toEqual(['a 1']);
+    expect(current.hook.isPlaceholderData).toBe(true);
+
+    await settle(40);
+    expect(items(current.hook)).toEqual(['b 1']);
+    expect(current.hook.isPlaceholderData).toBe(false);
+  });
+
+  it('loads the next page when the sentinel becomes visible, and stops watching at the end', async () => {
+    let onVisible!: (isVisible: boolean) => void;
+    const observeVisibility = vi.spyOn(IntersectionAPI, 'observeVisibility').mockImplementation((_element, callback) => {
+      onVisible = callback as (isVisible: boolean) => void;
+      return 'sentinel';
+    });
+    const unobserve = vi.spyOn(IntersectionAPI, 'unobserve').mockImplementation(() => undefined);
+    const { client } = pagesClient();
+    const current = {} as { hook: InfiniteQuery };
+
+    const { container } = await render(<List client={client} current={current} sentinel />);
+    await settle();
+    expect(observeVisibility).toHaveBeenCalledWith(container.firstChild, expect.any(Function));
+
+    await act(async () => onVisible(false));
+    expect(items(current.hook)).toEqual(['all 1']);
+
+    await act(async () => onVisible(true));
+    await settle();
+
+    expect(items(current.hook)).toEqual(['all 1', 'all 2']);
+    expect(unobserve).toHaveBeenCalledWith('sentinel');
+  });
+});
+
+describe('useOptimisticMutation', () => {
+  interface Item {
+    id: string | number;
+    title: string;
+    createdAt?: string;
+  }
+
+  type Mutation = ReturnType<typeof useOptimisticMutation<Item>>;
+
+  // Renders the hook and exposes its latest result
+  async function renderMutation(routes: Record<string, MockHandler>, initial: Item[]) {
+    const client = new DataManagementAPI({ transport: createMockTransport(routes), retry: false });
+    const current = {} as { hook: Mutation };
+
+    function Probe() {
+      current.hook = useOptimisticMutation<Item>(initial, '/items', { client });
+      return null;
+    }
+
+    await render(<Probe />);
+    return current;
+  }
+
+  // Starts a mutation and leaves it in flight
+  async function start(run: () => Promise<Item | null>): Promise<Promise<Item | null>> {
+    let pending!: Promise<Item | null>;
+    await act(async () => {
+      pending = run();
+    });
+    return pending;
+  }
+
+  it('shows a new item while it is sent, then the server version', async () => {
+    const handler = vi.fn<MockHandler>(request => ({
+      status: 201,
+      body: { ...(request.json() as Item), id: 42, createdAt: '2026-01-01' },
+      delay: 20,
+    }));
+    const current = await renderMutation({ 'POST /api/items': handler }, []);
+
+    const pending = await start(() => current.hook.mutate({ id: 'draft', title: 'Draft' }));
+    expect(current.hook.data).toEqual([{ id: 'draft', title: 'Draft', pending: true }]);
+    expect(current.hook.isPending).toBe(true);
+
+    const result = await act(() => pending);
+
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ method: 'POST', path: '/api/items' }));
+    expect(result).toEqual({ id: 42, title: 'Draft', createdAt: '2026-01-01' });
+    expect(current.hook.data).toEqual([{ id: 42, title: 'Draft', createdAt: '2026-01-01' }]);
+    expect(current.hook.isPending).toBe(false);
+  });
+
+  it('sends updates as PUT and removals as DELETE to the item URL', async () => {
+    const put = vi.fn<MockHandler>(request => ({ body: request.json() }));
+    const del = vi.fn<MockHandler>(() => ({ status: 204 }));
+    const current = await renderMutation(
+      { 'PUT /api/items/*': put, 'DELETE /api/items/*': del },
+      [{ id: 1, title: 'First' }, { id: 2, title: 'Second' }]
+    );
+
+    await act(() => current.hook.mutate({ id: 1, title: 'Renamed' }));
+    await act(() => current.hook.remove({ id: 2, title: 'Second' }));
+
+    expect(put).toHaveBeenCalledWith(expect.objectContaining({ path: '/api/items/1' }));
+    expect(del).toHaveBeenCalledWith(expect.objectContaining({ path: '/api/items/2' }));
+    expect(current.hook.data).toEqual([{ id: 1, title: 'Renamed' }]);
+  });
+
+  it('rolls back and surfaces the APIError when the server rejects the change', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const current = await renderMutation(
+      { 'PUT /api/items/*': () => ({ status: 500, body: { message: 'Database unavailable' }, delay: 20 }) },
+      [{ id: 1, title: 'First' }]
+    );
+
+    const pending = await start(() => current.hook.mutate({ id: 1, title: 'Renamed' }));
+    expect(current.hook.data).toEqual([{ id: 1, title: 'Renamed', pending: true }]);
+
+    expect(await act(() => pending)).toBeNull();
+
+    expect(current.hook.data).toEqual([{ id: 1, title: 'First' }]);
+    expect(current.hook.error).toBeInstanceOf(HTTPError);
+    expect(current.hook.error).toMatchObject({ message: 'Database unavailable', status: 500 });
+  });
+});
+
+describe('useAdvancedForm', () => {
+  function SignupForm({ client, validation }: { client: DataManagementAPI; validation?: ValidationRules }) {
+    const { dispatch, fieldErrors, getFieldProps, getErrorProps } = useAdvancedForm<{ id: number } | null>(
+      '/users',
+      { data: null, pending: false },
+      { client, validation }
+    );
+
+    return (
+      <form action={dispatch}>
+        <input aria-label="Name" {...getFieldProps('name')} />
+        <input aria-label="Email" {...getFieldProps('email')} />
+        <input type="checkbox" aria-label="News" {...getFieldProps('topics', 'news')} />
+        <input type="checkbox" aria-label="Offers" {...getFieldProps('topics', 'offers')} />
+        <p {...getErrorProps('email')}>{fieldErrors.email?.join(' ')}</p>
+      </form>
+    );
+  }
+
+  function field(container: HTMLElement, label: string): HTMLInputElement {
+    return container.querySelector(`[aria-label="${label}"]`)!;
+  }
+
+  async function fillAndSubmit(container: HTMLElement) {
+    field(container, 'Name').value = 'Ada';
+    field(container, 'Email').value = 'ada@example';
+    field(container, 'News').checked = true;
+    await act(async () => {
+      container.querySelector('form')!.requestSubmit();
+    });
+    await settle();
+  }
+
+  function expectEmailError(container: HTMLElement, message: string) {
+    const email = field(container, 'Email');
+    const errorElement = document.getElementById(email.getAttribute('aria-describedby')!);
+
+    expect(email.getAttribute('aria-invalid')).toBe('true');
+    expect(errorElement).not.toBeNull();
+    expect(errorElement!.hidden).toBe(false);
+    expect(errorElement!.getAttribute('role')).toBe('alert');
+    expect(errorElement!.textContent).toBe(message);
+
+    const name = field(container, 'Name');
+    expect(name.hasAttribute('aria-invalid')).toBe(false);
+    expect(name.hasAttribute('aria-describedby')).toBe(false);
+  }
+
+  function expectRepopulated(container: HTMLElement) {
+    expect(field(container, 'Name').value).toBe('Ada');
+    expect(field(container, 'Email').value).toBe('ada@example');
+    expect(field(container, 'News').checked).toBe(true);
+    expect(field(container, 'Offers').checked).toBe(false);
+  }
+
+  it('wires server field errors to the inputs and restores the submitted values', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const client = new DataManagementAPI({
+      transport: createMockTransport({
+        'POST /api/users': () => ({ status: 422, body: { message: 'Invalid', errors: { email: ['Email is taken'] } } }),
+      }),
+    });
+
+    const { container } = await render(<SignupForm client={client} />);
+    expect(field(container, 'Email').hasAttribute('aria-invalid')).toBe(false);
+    expect(container.querySelector('p')!.hidden).toBe(true);
+
+    await fillAndSubmit(container);
+
+    expectEmailError(container, 'Email is taken');
+    expectRepopulated(container);
+  });
+
+  it('does the same for client-side validation errors', async () => {
+    const handler = vi.fn<MockHandler>(() => ({ status: 201, body: { id: 1 } }));
+    const client = new DataManagementAPI({ transport: createMockTransport({ 'POST /api/users': handler }) });
+
+    const { container } = await render(<SignupForm client={client} validation={{ email: { type: 'email' } }} />);
+    await fillAndSubmit(container);
+
+    expect(handler).not.toHaveBeenCalled();
+    expectEmailError(container, 'email must be a valid email');
+    expectRepopulated(container);
+  });
+});
@@ -1,88 +1,632 @@
 // React 19 Hooks for Advanced APIs
-import { useEffect, useCallback, useOptimistic, useActionState, useState, useRef, startTransition } from 'react';
-import { DataManagementAPI, createFormAction } from '../lib/api/data-management';
+import { use, useEffect, useCallback, useId, useOptimistic, useActionState, useState, useRef, useSyncExternalStore, useTransition, startTransition } from 'react';
+import { DataManagementAPI, createFormAction, dataClient } from '../lib/api/data-management';
+import { QueryCache } from '../lib/api/query-cache';
+import {
+  fetchNextInfinitePage,
+  getNextPageParam,
+  infiniteQueryKey,
+  loadInfiniteQuery,
+  type InfinitePages,
+  type PaginationStrategy
+} from '../lib/api/infinite-query';
 import { ViewTransitionsAPI, IntersectionAPI, ResizeAPI, ShareAPI } from '../lib/api/web-platform';
 import { ServiceWorkerAPI, NotificationAPI } from '../lib/api/pwa';
 import { SpeculationAPI, WorkerAPI, PerformanceAPI } from '../lib/api/performance';
-import type { FormState, OptimisticUpdate } from '../lib/types';
+import { Validator, type ValidationRules } from '../lib/error-handling';
+import { FeatureDetection, type FeatureName, type FeatureSupport } from '../lib/feature-detection';
+import type {
+  FormState,
+  OptimisticUpdate,
+  ApiError,
+  QueryParams,
+  QueuedMutation,
+  BodyEncoding,
+  FieldErrors
+} from '../lib/types';
 
 /**
  * React 19 useOptimistic integration for data mutations
+ *
+ * `initialData` seeds the confirmed list; afterwards the hook owns it and
+ * reconciles each item with the server's response. Failed mutations roll
+ * back automatically when their transition settles. With an offline queue
+ * on the client, queued mutations (including ones left from a previous
+ * visit) stay visible as pending until they replay.
  */
-export function useOptimisticMutation<T>(
+export function useOptimisticMutation<T extends { id: string | number }>(
   initialData: T[],
-  endpoint: string
+  endpoint: string,
+  options?: { client?: DataManagementAPI }
 ) {
+  const client = options?.client ?? dataClient;
+  const [confirmedData, setConfirmedData] = useState(initialData);
+  const [queued, setQueued] = useState<QueuedAction<T>[]>([]);
+  const [error, setError] = useState<ApiError | null>(null);
+  const [isPending, startMutation] = useTransition();
+
+  const visibleData = queued.reduce(
+    (state, queuedAction) => applyMutation(state, queuedAction.action),
+    confirmedData as PendingItem<T>[]
+  );
+
   const [optimisticData, addOptimistic] = useOptimistic(
-    initialData,
-    (state: T[], action: { type: 'add' | 'update' | 'remove'; item: T }) => {
-      switch (action.type) {
-        case 'add':
-          return [...state, action.item];
-        case 'update':
-          return state.map((item: any) => 
-            item.id === (action.item as any).id ? action.item : item
-          );
-        case 'remove':
-          return state.filter((item: any) => item.id !== (action.item as any).id);
-        default:
-          return state;
-      }
-    }
+    visibleData,
+    (state: PendingItem<T>[], action: MutationAction<PendingItem<T>>) => applyMutation(state, action)
   );
 
-  const mutate = useCallback((data: T) => {
-    const itemWithPending = { ...data, pending: true } as T;
-    
-    // Add optimistic update immediately
-    const exists = optimisticData.find((item: any) => item.id === (data as any).id);
-    addOptimistic({ 
-      type: exists ? 'update' : 'add', 
-      item: itemWithPending 
+  const dequeue = useCallback((id: string) => {
+    startTransition(() => {
+      setQueued(prev => prev.filter(queuedAction => queuedAction.id !== id));
     });
+  }, []);
 
-    // Simulate API call
-    setTimeout(() => {
-      startTransition(() => {
-        const finalItem = { ...data, pending: false } as T;
-        addOptimistic({ 
-          type: 'update', 
-          item: finalItem 
+  // Mutations queued before this mount have no callbacks; follow them through queue events
+  useEffect(() => {
+    const queue = client.offlineQueue;
+    if (!queue) return;
+
+    let active = true;
+    const restored = new Set<string>();
+
+    queue.list<T>().then((mutations) => {
+      if (!active) return;
+
+      const actions = mutations
+        .filter(mutation => mutation.endpoint === endpoint || mutation.endpoint.startsWith(`${endpoint}/`))
+        .map((mutation): QueuedAction<T> => {
+          restored.add(mutation.id);
+          return {
+            id: mutation.id,
+            action: { type: MUTATION_TYPES[mutation.method], item: { ...mutation.data, pending: true } },
+          };
         });
+      setQueued(prev => [...actions, ...prev]);
+    }, () => undefined);
+
+    const unsubscribe = queue.subscribe((event) => {
+      if (event.type === 'queued' || !restored.has(event.mutation.id)) return;
+
+      const mutation = event.mutation as QueuedMutation<T>;
+      restored.delete(mutation.id);
+      dequeue(mutation.id);
+
+      if (event.type === 'replayed') {
+        const type = MUTATION_TYPES[mutation.method];
+        const item = type === 'remove' ? mutation.data : { ...mutation.data, ...(event.result as T) };
+        setConfirmedData(prev => applyMutation(prev, { type, item }));
+      } else {
+        setError(event.error);
+      }
+    });
+
+    queue.start();
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [client, endpoint, dequeue]);
+
+  const run = useCallback((type: MutationAction<T>['type'], data: T) => {
+    return new Promise<T | null>((resolve) => {
+      startMutation(async () => {
+        setError(null);
+        let queuedId: string | null = null;
+
+        await client.optimisticMutation<T>(
+          data,
+          type === 'add' ? endpoint : `${endpoint}/${encodeURIComponent(String(data.id))}`,
+          {
+            method: MUTATION_METHODS[type],
+            onOptimisticUpdate: (update: OptimisticUpdate<T>) => {
+              if (update.error) {
+                setError(update.error);
+              } else if (update.queued) {
+                // Keep the item pending past this transition until it replays
+                queuedId = update.id;
+                startTransition(() => {
+                  setQueued(prev => [...prev, { id: update.id, action: { type, item: { ...update.data, pending: true } } }]);
+                });
+                resolve(null);
+              } else {
+                addOptimistic({ type, item: { ...update.data, pending: true } });
+              }
+            },
+            onRollback: (id) => {
+              dequeue(id);
+              resolve(null);
+            },
+            onSuccess: (result) => {
+              // Server data replaces the optimistic item (e.g. server-assigned fields)
+              const item = type === 'remove' ? data : { ...data, ...result };
+              if (queuedId) {
+                dequeue(queuedId);
+              }
+              startTransition(() => {
+                setConfirmedData(prev => applyMutation(prev, { type, item }));
+              });
+              resolve(item);
+            },
+          }
+        );
       });
-    }, 500);
-  }, [optimisticData, addOptimistic]);
+    });
+  }, [client, endpoint, addOptimistic, dequeue]);
+
+  const mutate = useCallback((data: T) => {
+    const exists = visibleData.some(item => item.id === data.id);
+    return run(exists ? 'update' : 'add', data);
+  }, [visibleData, run]);
+
+  const remove = useCallback((data: T) => run('remove', data), [run]);
 
   return {
     data: optimisticData,
-    mutate
+    mutate,
+    remove,
+    isPending,
+    error
   };
 }
 
+type MutationAction<T> = { type: 'add' | 'update' | 'remove'; item: T };
+type PendingItem<T> = T & { pending?: boolean };
+type QueuedAction<T> = { id: string; action: MutationAction<PendingItem<T>> };
+
+const MUTATION_TYPES = {
+  POST: 'add',
+  PUT: 'update',
+  DELETE: 'remove',
+} as const;
+
+const MUTATION_METHODS = {
+  add: 'POST',
+  update: 'PUT',
+  remove: 'DELETE',
+} as const;
+
+function applyMutation<T extends { id: string | number }>(
+  state: T[],
+  action: MutationAction<T>
+): T[] {
+  switch (action.type) {
+    case 'add':
+      return [...state, action.item];
+    case 'update':
+      return state.map(item => item.id === action.item.id ? action.item : item);
+    case 'remove':
+      return state.filter(item => item.id !== action.item.id);
+    default:
+      return state;
+  }
+}
+
 /**
- * React 19 useActionState integration for forms  
+ * React 19 useActionState integration for forms
+ *
+ * While the action runs, `state.data` holds the optimistic entity (when
+ * `optimistic` is on) and `state.upload` / `state.chunks` update live from
+ * upload progress events and streamed response chunks.
+ *
+ * `getFieldProps(name)` binds an input to the last submission: it restores
+ * the submitted value and points `aria-describedby` at the element given
+ * `getErrorProps(name)`, which renders that field's errors. With
+ * `validation` rules and `validateOn: 'blur' | 'change'`, fields are also
+ * checked as the user edits them.
  */
 export function useAdvancedForm<T>(
   endpoint: string,
   initialState: FormState<T>,
-  options?: { optimistic?: boolean; revalidate?: string[] }
+  options?: {
+    optimistic?: boolean;
+    revalidate?: string[];
+    client?: DataManagementAPI;
+    encoding?: BodyEncoding;
+    mapOptimistic?: (formData: FormData, tempId: string) => T;
+    insertInto?: string[];
+    getId?: (data: T) => string | number | null | undefined;
+    validation?: ValidationRules;
+    validateOn?: 'submit' | 'blur' | 'change';
+  }
 ) {
-  const formAction = createFormAction<T>(endpoint, options);
+  const [progress, setProgress] = useState<Pick<FormState<T>, 'upload' | 'chunks'>>({});
+  // Results of blur/change validation; null marks a field that is valid again
+  const [liveErrors, setLiveErrors] = useState<Record<string, string[] | null>>({});
+  const asyncChecks = useRef(new Map<string, { timer: ReturnType<typeof setTimeout>; controller: AbortController }>());
+
+  useEffect(() => {
+    const checks = asyncChecks.current;
+    return () => {
+      checks.forEach(({ timer, controller }) => {
+        clearTimeout(timer);
+        controller.abort();
+      });
+      checks.clear();
+    };
+  }, []);
+
+  // Progress arrives after the action's first await, so these are urgent updates
+  const submit = createFormAction<T>(endpoint, {
+    ...options,
+    onOptimisticUpdate: (data) => setOptimisticState(data),
+    onUploadProgress: (upload) => setProgress(prev => ({ ...prev, upload })),
+    onChunk: (_chunk, chunks) => setProgress(prev => ({ ...prev, chunks })),
+  });
+
+  const formAction = (prevState: FormState<T>, formData: FormData) => {
+    // The action re-runs every rule, async ones included
+    [...asyncChecks.current.keys()].forEach(cancelAsyncCheck);
+    setProgress({});
+    setLiveErrors({});
+    return submit(prevState, formData);
+  };
+
   const [state, dispatch, isPending] = useActionState(formAction, initialState);
+  const [optimisticState, setOptimisticState] = useOptimistic(
+    state,
+    (current: FormState<T>, data: T) => ({ ...current, data, pending: true })
+  );
+
+  const formId = useId();
+  const errorId = (name: string) => `${formId}-${name}-error`;
+
+  const fieldErrors: FieldErrors = { ...state.fieldErrors };
+  Object.entries(liveErrors).forEach(([name, errors]) => {
+    if (errors) {
+      fieldErrors[name] = errors;
+    } else {
+      delete fieldErrors[name];
+    }
+  });
+
+  const cancelAsyncCheck = (name: string) => {
+    const check = asyncChecks.current.get(name);
+    if (check) {
+      clearTimeout(check.timer);
+      check.controller.abort();
+      asyncChecks.current.delete(name);
+    }
+  };
+
+  // Sync rules report immediately; async validators run debounced and are
+  // aborted when the field changes again
+  const validateField = (name: string, form: HTMLFormElement | null) => {
+    const rule = options?.validation?.[name];
+    if (!rule || !form) return;
+
+    const formData = new FormData(form);
+    const messages = Validator.validateField(name, formData, rule);
+    cancelAsyncCheck(name);
+    setLiveErrors(prev => ({ ...prev, [name]: messages.length > 0 ? messages : null }));
+
+    if (messages.length > 0 || !rule.asyncValidator) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      Validator.validateFormDataAsync(formData, { [name]: rule }, controller.signal).then(({ fieldErrors }) => {
+        if (controller.signal.aborted) return;
+        asyncChecks.current.delete(name);
+        setLiveErrors(prev => ({ ...prev, [name]: fieldErrors[name] ?? null }));
+      }, () => undefined);
+    }, rule.debounce ?? 300);
+
+    asyncChecks.current.set(name, { timer, controller });
+  };
+
+  const validateOn = options?.validateOn ?? 'submit';
+
+  // Pass `value` for checkboxes and radios so they are re-checked instead
+  const getFieldProps = (name: string, value?: string) => {
+    const errors = fieldErrors[name];
+    const submitted = state.values?.[name];
+    const validate = (event: { currentTarget: { form: HTMLFormElement | null } }) => {
+      validateField(name, event.currentTarget.form);
+    };
+
+    return {
+      name,
+      ...(value === undefined
+        ? { defaultValue: submitted }
+        : { value, defaultChecked: submitted === value || (Array.isArray(submitted) && submitted.includes(value)) }),
+      onBlur: validateOn === 'blur' ? validate : undefined,
+      onChange: validateOn === 'change' ? validate : undefined,
+      'aria-invalid': errors ? true : undefined,
+      'aria-describedby': errors ? errorId(name) : undefined,
+    };
+  };
+
+  const getErrorProps = (name: string) => ({
+    id: errorId(name),
+    role: 'alert' as const,
+    hidden: !fieldErrors[name],
+  });
 
   return {
-    state,
+    state: isPending ? { ...optimisticState, ...progress, pending: true } : state,
     dispatch,
     isPending,
     isSuccess: state.success,
-    error: state.error
+    error: state.error,
+    fieldErrors,
+    warnings: state.warnings ?? [],
+    getFieldProps,
+    getErrorProps,
+    validateField
   };
 }
 
+/**
+ * Data fetching hook; the request is aborted on unmount or endpoint change
+ * and shared with other components fetching the same endpoint
+ */
+export function useFetchData<T>(
+  endpoint: string | null,
+  options?: { cache?: boolean; revalidate?: number; client?: DataManagementAPI }
+) {
+  const client = options?.client ?? dataClient;
+  const cache = options?.cache;
+  const revalidate = options?.revalidate;
+
+  const [data, setData] = useState<T | null>(null);
+  const [error, setError] = useState<ApiError | null>(null);
+  const [isLoading, setIsLoading] = useState(endpoint !== null);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  useEffect(() => {
+    if (endpoint === null) return;
+
+    const controller = new AbortController();
+    setIsLoading(true);
+
+    client.fetchData<T>(endpoint, { cache, revalidate, signal: controller.signal }).then((result) => {
+      // Stale responses from a previous endpoint never overwrite state
+      if (controller.signal.aborted) return;
+
+      if (result.success) {
+        setData(result.data);
+        setError(null);
+      } else {
+        setError(result.error ?? null);
+      }
+      setIsLoading(false);
+    });
+
+    return () => {
+      controller.abort();
+    };
+  }, [client, endpoint, cache, revalidate, reloadCount]);
+
+  const refetch = useCallback(() => {
+    setReloadCount(count => count + 1);
+  }, []);
+
+  return {
+    data,
+    error,
+    isLoading,
+    refetch
+  };
+}
+
+// Data a suspended render just loaded is not refetched when it commits
+const SUSPENSE_REFETCH_GRACE = 1_000;
+
+/**
+ * Cached query hook with stale-while-revalidate semantics. Pass
+ * `suspense: true` to suspend through React 19's use(), or hand the
+ * returned `promise` to use() yourself.
+ */
+export function useQuery<T>(
+  endpoint: string | null,
+  options?: {
+    params?: QueryParams;
+    tags?: string[];
+    staleTime?: number;
+    suspense?: boolean;
+    client?: DataManagementAPI;
+  }
+) {
+  const client = options?.client ?? dataClient;
+  const { queryCache } = client;
+  const staleTime = options?.staleTime;
+  const tagList = options?.tags?.join(',') ?? '';
+
+  // The key already carries the sorted params, so it doubles as the URL
+  const key = endpoint === null ? null : QueryCache.key(endpoint, options?.params);
+
+  const subscribe = useCallback((listener: () => void) => {
+    return key === null ? () => {} : queryCache.subscribe(key, listener);
+  }, [queryCache, key]);
+
+  // The server renders the loading state; cached data shows after hydration
+  const state = useSyncExternalStore(
+    subscribe,
+    () => key === null ? undefined : queryCache.getState<T>(key),
+    () => undefined
+  );
+
+  const runQuery = useCallback((force?: boolean) => {
+    if (key === null) {
+      return Promise.resolve(undefined);
+    }
+    return client.query<T>(key, {
+      tags: tagList ? tagList.split(',') : undefined,
+      staleTime,
+      force,
+    });
+  }, [client, key, tagList, staleTime]);
+
+  const suspense = options?.suspense ?? false;
+
+  useEffect(() => {
+    if (suspense && key !== null && Date.now() - (queryCache.getState(key)?.updatedAt ?? 0) < SUSPENSE_REFETCH_GRACE) {
+      return;
+    }
+    runQuery().catch(() => undefined);
+  }, [runQuery, suspense, key, queryCache]);
+
+  // Render only reads the stored promise; a fetch starts here only when there is none yet
+  const suspended = suspense && key !== null
+    ? use(state?.promise as Promise<T> | undefined ?? client.resource<T>(key, { tags: tagList ? tagList.split(',') : undefined }))
+    : undefined;
+
+  const refetch = useCallback(() => runQuery(true), [runQuery]);
+
+  return {
+    data: suspended ?? state?.data,
+    error: state?.error ?? null,
+    isLoading: key !== null && state?.data === undefined && !state?.error,
+    isFetching: state?.isFetching ?? false,
+    isStale: key !== null && (!state || queryCache.isStale(key, staleTime)),
+    promise: state?.promise,
+    refetch
+  };
+}
+
+/**
+ * Infinite list hook for cursor or offset pagination. Previous pages stay
+ * visible while new params load, and `sentinelRef` loads the next page
+ * when the element it is attached to scrolls into view.
+ */
+export function useInfiniteQuery<TPage, TParam>(
+  endpoint: string | null,
+  options: {
+    pagination: PaginationStrategy<TPage, TParam>;
+    params?: QueryParams;
+    tags?: string[];
+    staleTime?: number;
+    client?: DataManagementAPI;
+  }
+) {
+  const client = options.client ?? dataClient;
+  const { queryCache } = client;
+  const staleTime = options.staleTime;
+  const key = endpoint === null ? null : infiniteQueryKey(endpoint, options.params);
+
+  // Latest options without re-running effects for inline objects
+  const optionsRef = useRef(options);
+  useEffect(() => {
+    optionsRef.current = options;
+  });
+
+  const subscribe = useCallback((listener: () => void) => {
+    return key === null ? () => {} : queryCache.subscribe(key, listener);
+  }, [queryCache, key]);
+
+  const state = useSyncExternalStore(
+    subscribe,
+    () => key === null ? undefined : queryCache.getState<InfinitePages<TPage, TParam>>(key),
+    () => undefined
+  );
+
+  const [previousData, setPreviousData] = useState<InfinitePages<TPage, TParam>>();
+  const [isFetchingNextPage, setIsFetchingNextPage] = useState(false);
+  const [nextPageError, setNextPageError] = useState<ApiError | null>(null);
+  const fetchingNextRef = useRef(false);
+
+  useEffect(() => {
+    if (endpoint === null || key === null) return;
+    loadInfiniteQuery(client, endpoint, { ...optionsRef.current, staleTime }).catch(() => undefined);
+  }, [client, endpoint, key, staleTime]);
+
+  useEffect(() => {
+    if (state?.data) {
+      setPreviousData(state.data);
+    }
+  }, [state?.data]);
+
+  const hasNextPage = state?.data !== undefined
+    && getNextPageParam(state.data, options.pagination) != null;
+
+  const fetchNextPage = useCallback(async () => {
+    if (endpoint === null || fetchingNextRef.current) return;
+
+    fetchingNextRef.current = true;
+    setIsFetchingNextPage(true);
+    setNextPageError(null);
+
+    try {
+      await fetchNextInfinitePage(client, endpoint, optionsRef.current);
+    } catch (error) {
+      setNextPageError(error as ApiError);
+    } finally {
+      fetchingNextRef.current = false;
+      setIsFetchingNextPage(false);
+    }
+  }, [client, endpoint]);
+
+  const refetch = useCallback(() => {
+    if (endpoint === null) return Promise.resolve(undefined);
+    return loadInfiniteQuery(client, endpoint, { ...optionsRef.current, force: true });
+  }, [client, endpoint]);
+
+  const sentinelRef = useCallback((element: Element | null) => {
+    if (!element || !hasNextPage) return;
+
+    const observerId = IntersectionAPI.observeVisibility(element, (isVisible) => {
+      if (isVisible) fetchNextPage();
+    });
+
+    return () => {
+      IntersectionAPI.unobserve(observerId);
+    };
+  }, [hasNextPage, fetchNextPage]);
+
+  const data = state?.data ?? previousData;
+
+  return {
+    data,
+    pages: data?.pages ?? [],
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+    isLoading: key !== null && state?.data === undefined && !state?.error,
+    isPlaceholderData: state?.data === undefined && previousData !== undefined,
+    error: nextPageError ?? state?.error ?? null,
+    refetch,
+    sentinelRef
+  };
+}
+
+// Support never changes after polyfills load, so there is nothing to subscribe to
+const subscribeToSupport = () => () => {};
+
+let supportSnapshot: FeatureSupport | undefined;
+let serverSupportSnapshot: FeatureSupport | undefined;
+
+/**
+ * Feature support that is `false` on the server and during hydration, then
+ * the real value, so supported-only UI never causes a hydration mismatch
+ */
+export function useFeatureSupport(feature: FeatureName): boolean {
+  return useSyncExternalStore(
+    subscribeToSupport,
+    () => FeatureDetection.checkWebAPI(feature),
+    () => false
+  );
+}
+
+/**
+ * `getAPISupport()` for components, with the same server behaviour as
+ * `useFeatureSupport`. Read once, after polyfills have been applied.
+ */
+export function useAPISupport(): FeatureSupport {
+  return useSyncExternalStore(
+    subscribeToSupport,
+    () => supportSnapshot ??= FeatureDetection.getSupport(),
+    () => serverSupportSnapshot ??= Object.fromEntries(
+      FeatureDetection.list().map(feature => [feature, false])
+    ) as FeatureSupport
+  );
+}
+
 /**
  * View Transitions hook with navigation integration
  */
 export function useViewTransitions() {
+  const isSupported = useFeatureSupport('viewTransitions');
+
   const navigate = useCallback(async (
     updateFn: () => void | Promise<void>,
     options?: { duration?: number; easing?: string }
@@ -101,7 +645,7 @@ export function useViewTransitions() {
   return {
     navigate,
     setTransitionName,
-    isSupported: ViewTransitionsAPI.isSupported()
+    isSupported
   };
 }
 
@@ -207,13 +751,15 @@ export function useResizeObserver(
 export function useWebShare() {
   const [isSharing, setIsSharing] = useState(false);
   const [shareResult, setShareResult] = useState<boolean | null>(null);
+  const isSupported = useFeatureSupport('webShare');
 
+  // Fields left out are filled from the current page's head metadata
   const share = useCallback(async (data: {
     title?: string;
     text?: string;
     url?: string;
     files?: File[];
-  }) => {
+  } = {}) => {
     setIsSharing(true);
     setShareResult(null);
     
@@ -233,8 +779,8 @@ export function useWebShare() {
     share,
     isSharing,
     shareResult,
-    canShare: ShareAPI.canShare(),
-    isSupported: ShareAPI.isSupported()
+    canShare: isSupported && ShareAPI.canShare(),
+    isSupported
   };
 }
 
@@ -244,6 +790,7 @@ export function useWebShare() {
 export function useServiceWorker(scriptURL: string) {
   const [registration, setRegistration] = useState<ServiceWorkerRegistration | null>(null);
   const [updateAvailable, setUpdateAvailable] = useState(false);
+  const isSupported = useFeatureSupport('serviceWorker');
 
   useEffect(() => {
     const registerSW = async () => {
@@ -273,7 +820,7 @@ export function useServiceWorker(scriptURL: string) {
     registration,
     updateAvailable,
     update,
-    isSupported: ServiceWorkerAPI.isSupported()
+    isSupported
   };
 }
 
@@ -283,6 +830,7 @@ export function useServiceWorker(scriptURL: string) {
 export function useNotifications() {
   const [permission, setPermission] = useState<NotificationPermission>('default');
   const [subscription, setSubscription] = useState<PushSubscription | null>(null);
+  const isSupported = useFeatureSupport('notifications');
 
   useEffect(() => {
     if (NotificationAPI.isSupported()) {
@@ -323,7 +871,7 @@ export function useNotifications() {
     requestPermission,
     showNotification,
     subscribeToPush,
-    isSupported: NotificationAPI.isSupported()
+    isSupported
   };
 }
 
@@ -333,6 +881,7 @@ export function useNotifications() {
 export function useWebWorker(script: string | (() => string)) {
   const [workerId, setWorkerId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const isSupported = useFeatureSupport('webWorkers');
 
   useEffect(() => {
     const initWorker = async () => {
@@ -376,7 +925,7 @@ export function useWebWorker(script: string | (() => string)) {
     isLoading,
     postMessage,
     isReady: !!workerId && !isLoading,
-    isSupported: WorkerAPI.isSupported()
+    isSupported
   };
 }
 
@@ -423,6 +972,8 @@ export function usePerformanceMonitoring() {
  * Speculation Rules hook for prefetching
  */
 export function useSpeculation() {
+  const isSupported = useFeatureSupport('speculationRules');
+
   const preloadPage = useCallback((
     url: string,
     eagerness: 'conservative' | 'moderate' | 'immediate' = 'moderate'
@@ -440,6 +991,6 @@ export function useSpeculation() {
   return {
     preloadPage,
     prefetchAPI,
-    isSupported: SpeculationAPI.isSupported()
+    isSupported
   };
 }
\ No newline at end of file
@@ -0,0 +1,135 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { FormState, TransportRequest } from '../types';
+import { ValidationError } from '../error-handling';
+import { encodeBody, hasFiles, parseResponse } from './body';
+import { createFormAction, DataManagementAPI } from './data-management';
+
+// A response whose body arrives in the given pieces, one per read
+function streamedResponse(parts: string[], contentType: string): Response {
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      parts.forEach(part => controller.enqueue(encoder.encode(part)));
+      controller.close();
+    },
+  });
+  return new Response(stream, { headers: { 'Content-Type': contentType } });
+}
+
+describe('encodeBody', () => {
+  it('sends plain objects as JSON', () => {
+    const encoded = encodeBody({ title: 'Draft', tags: ['a', 'b'] });
+
+    expect(encoded.headers).toEqual({ 'Content-Type': 'application/json' });
+    expect(JSON.parse(encoded.body as string)).toEqual({ title: 'Draft', tags: ['a', 'b'] });
+  });
+
+  it('turns repeated FormData names into arrays when encoding JSON', () => {
+    const formData = new FormData();
+    formData.append('title', 'Draft');
+    formData.append('tag', 'a');
+    formData.append('tag', 'b');
+
+    const encoded = encodeBody(formData, 'json');
+
+    expect(JSON.parse(encoded.body as string)).toEqual({ title: 'Draft', tag: ['a', 'b'] });
+  });
+
+  it('URL-encodes URLSearchParams and converted objects', () => {
+    const params = new URLSearchParams({ q: 'react' });
+    expect(encodeBody(params)).toEqual({
+      body: params,
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded;charset=UTF-8' },
+    });
+
+    const encoded = encodeBody({ q: 'react 19', page: 2, skip: null }, 'urlencoded');
+    expect(String(encoded.body)).toBe('q=react+19&page=2');
+  });
+
+  it('sends FormData as multipart without a Content-Type, so the boundary is set for it', () => {
+    const formData = new FormData();
+    formData.append('name', 'Ada');
+
+    const encoded = encodeBody(formData);
+
+    expect(encoded.body).toBe(formData);
+    expect(encoded.headers).toEqual({});
+  });
+
+  it('converts objects with files to multipart', () => {
+    const file = new File(['hello'], 'hello.txt', { type: 'text/plain' });
+
+    const encoded = encodeBody({ title: 'Notes', attachments: [file] }, 'multipart');
+    const formData = encoded.body as FormData;
+
+    expect(hasFiles({ attachments: [file] })).toBe(true);
+    expect(formData.get('title')).toBe('Notes');
+    expect(formData.get('attachments')).toBeInstanceOf(File);
+  });
+
+  it.each(['json', 'urlencoded'] as const)('rejects files in %s bodies', (encoding) => {
+    const formData = new FormData();
+    formData.append('avatar', new File(['x'], 'avatar.png'));
+
+    expect(() => encodeBody(formData, encoding)).toThrow(ValidationError);
+  });
+});
+
+describe('parseResponse', () => {
+  it('parses NDJSON lines as they arrive, including a line split across reads', async () => {
+    const onChunk = vi.fn();
+
+    const parsed = await parseResponse(
+      streamedResponse(['{"step":1}\n{"st', 'ep":2}\n', '{"step":3}'], 'application/x-ndjson'),
+      onChunk
+    );
+
+    expect(onChunk.mock.calls.map(([chunk]) => chunk)).toEqual([{ step: 1 }, { step: 2 }, { step: 3 }]);
+    expect(onChunk).toHaveBeenLastCalledWith({ step: 3 }, [{ step: 1 }, { step: 2 }, { step: 3 }]);
+    expect(parsed).toEqual({ data: { step: 3 }, chunks: [{ step: 1 }, { step: 2 }, { step: 3 }] });
+  });
+
+  it('streams text chunks to onChunk and joins them into data', async () => {
+    const onChunk = vi.fn();
+
+    const parsed = await parseResponse(streamedResponse(['Hello, ', 'world'], 'text/plain'), onChunk);
+
+    expect(onChunk).toHaveBeenCalledTimes(2);
+    expect(parsed).toEqual({ data: 'Hello, world', chunks: ['Hello, ', 'world'] });
+  });
+
+  it('reads plain JSON and text responses whole', async () => {
+    expect(await parseResponse(Response.json({ id: 1 }))).toEqual({ data: { id: 1 } });
+    expect(await parseResponse(new Response('done'))).toEqual({ data: 'done' });
+    expect(await parseResponse(new Response(null, { status: 204 }))).toEqual({ data: null });
+  });
+});
+
+describe('createFormAction bodies and streaming', () => {
+  const initialState: FormState = { data: null, pending: false };
+
+  it('sends the form as JSON and collects streamed chunks into the form state', async () => {
+    const requests: TransportRequest[] = [];
+    const client = new DataManagementAPI({
+      transport: async (request) => {
+        requests.push(request);
+        return streamedResponse(['{"progress":50}\n{"progress":100,', '"id":7}\n'], 'application/x-ndjson');
+      },
+    });
+    const onChunk = vi.fn();
+    const action = createFormAction<{ id: number }>('/imports', { client, encoding: 'json', onChunk });
+
+    const formData = new FormData();
+    formData.append('source', 'csv');
+    const state = await action(initialState, formData);
+
+    expect(requests[0].headers['Content-Type']).toBe('application/json');
+    expect(requests[0].body).toBe('{"source":"csv"}');
+    expect(onChunk).toHaveBeenCalledTimes(2);
+    expect(state).toMatchObject({
+      success: true,
+      data: { progress: 100, id: 7 },
+      chunks: [{ progress: 50 }, { progress: 100, id: 7 }],
+    });
+  });
+});
@@ -0,0 +1,174 @@
+// Request body encoding and streaming response parsing
+import type { BodyEncoding, FormBody } from '../types';
+import { ValidationError } from '../error-handling';
+import { Messages } from '../messages';
+
+export interface EncodedBody {
+  body: BodyInit;
+  headers: Record<string, string>;
+}
+
+export interface ParsedResponse<T> {
+  data: T;
+  chunks?: unknown[];
+}
+
+/**
+ * FormData defaults to multipart, URLSearchParams to URL-encoded and plain
+ * objects to JSON; `encoding` converts between them
+ */
+export function encodeBody(body: FormBody, encoding?: BodyEncoding): EncodedBody {
+  const resolved = encoding ?? (
+    body instanceof FormData ? 'multipart'
+      : body instanceof URLSearchParams ? 'urlencoded'
+      : 'json'
+  );
+
+  switch (resolved) {
+    case 'multipart':
+      // The browser sets the multipart boundary itself
+      return { body: toFormData(body), headers: {} };
+    case 'urlencoded':
+      return {
+        body: toSearchParams(body),
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded;charset=UTF-8' },
+      };
+    case 'json':
+      return {
+        body: JSON.stringify(toObject(body)),
+        headers: { 'Content-Type': 'application/json' },
+      };
+  }
+}
+
+export function hasFiles(body: FormBody): boolean {
+  const values = body instanceof FormData || body instanceof URLSearchParams
+    ? [...body.values()]
+    : Object.values(body).flat();
+  return values.some(value => value instanceof Blob);
+}
+
+/**
+ * Read a response body. NDJSON is parsed line by line and plain-text
+ * streams are decoded chunk by chunk, each passed to `onChunk` as it
+ * arrives; the last NDJSON line (or the full text) becomes `data`.
+ */
+export async function parseResponse<T>(
+  response: Response,
+  onChunk?: (chunk: unknown, chunks: unknown[]) => void
+): Promise<ParsedResponse<T>> {
+  const contentType = response.headers.get('Content-Type') ?? '';
+  const isNdjson = /ndjson|jsonl|json-seq/.test(contentType);
+
+  if (response.body && (isNdjson || (onChunk && contentType.startsWith('text/')))) {
+    const chunks: unknown[] = [];
+    const push = (chunk: unknown) => {
+      chunks.push(chunk);
+      onChunk?.(chunk, [...chunks]);
+    };
+
+    let text = '';
+    await readLines(response.body, isNdjson, (part) => {
+      if (isNdjson) {
+        push(JSON.parse(part));
+      } else {
+        text += part;
+        push(part);
+      }
+    });
+
+    return {
+      data: (isNdjson ? chunks[chunks.length - 1] ?? null : text) as T,
+      chunks,
+    };
+  }
+
+  const text = await response.text();
+  if (!text) {
+    return { data: null as T };
+  }
+  try {
+    return { data: JSON.parse(text) };
+  } catch {
+    return { data: text as T };
+  }
+}
+
+async function readLines(
+  stream: ReadableStream<Uint8Array>,
+  splitLines: boolean,
+  onPart: (part: string) => void
+): Promise<void> {
+  const reader = stream.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    if (!splitLines) {
+      onPart(value);
+      continue;
+    }
+
+    buffer += value;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    lines.filter(line => line.trim()).forEach(onPart);
+  }
+
+  if (splitLines && buffer.trim()) {
+    onPart(buffer);
+  }
+}
+
+function toFormData(body: FormBody): FormData {
+  if (body instanceof FormData) return body;
+
+  const formData = new FormData();
+  const entries = body instanceof URLSearchParams ? [...body.entries()] : Object.entries(body);
+  for (const [name, value] of entries) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (item === undefined || item === null) continue;
+      formData.append(name, item instanceof Blob ? item : String(item));
+    }
+  }
+  return formData;
+}
+
+function toSearchParams(body: FormBody): URLSearchParams {
+  if (body instanceof URLSearchParams) return body;
+  assertNoFiles(body, 'urlencoded');
+
+  const params = new URLSearchParams();
+  const entries = body instanceof FormData ? [...body.entries()] : Object.entries(body);
+  for (const [name, value] of entries) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (item !== undefined && item !== null) {
+        params.append(name, String(item));
+      }
+    }
+  }
+  return params;
+}
+
+function toObject(body: FormBody): unknown {
+  assertNoFiles(body, 'json');
+  if (!(body instanceof FormData) && !(body instanceof URLSearchParams)) {
+    return body;
+  }
+
+  // Repeated names (checkbox groups, multi-selects) become arrays
+  const data: Record<string, unknown> = {};
+  for (const name of new Set(body.keys())) {
+    const values = body.getAll(name);
+    data[name] = values.length > 1 ? values : values[0];
+  }
+  return data;
+}
+
+function assertNoFiles(body: FormBody, encoding: BodyEncoding): void {
+  if (hasFiles(body)) {
+    throw new ValidationError(Messages.format('error.multipart', { encoding }), { encoding });
+  }
+}
@@ -0,0 +1,248 @@
+// @vitest-environment node
+// The data client also runs during prerendering, without a DOM
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { FormState } from '../types';
+import { ErrorHandler } from '../error-handling';
+import { createFormAction, DataManagementAPI } from './data-management';
+import { createMockTransport } from './transport';
+
+const initialState: FormState = { data: null, pending: false };
+
+function form(entries: Record<string, string>): FormData {
+  const formData = new FormData();
+  Object.entries(entries).forEach(([name, value]) => formData.append(name, value));
+  return formData;
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('createFormAction validation', () => {
+  it('returns field errors without sending anything', async () => {
+    const handler = vi.fn(() => ({ status: 201, body: { id: 1 } }));
+    const client = new DataManagementAPI({ transport: createMockTransport({ 'POST /api/users': handler }) });
+    const action = createFormAction('/users', { client, validation: { email: { required: true } } });
+
+    const state = await action(initialState, form({ name: 'Ada' }));
+
+    expect(state.success).toBe(false);
+    expect(state.fieldErrors).toEqual({ email: ['email is required'] });
+    expect(state.values).toEqual({ name: 'Ada' });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('keeps a failing async validator inside the form state', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const handler = vi.fn(() => ({ status: 201, body: { id: 1 } }));
+    const client = new DataManagementAPI({ transport: createMockTransport({ 'POST /api/users': handler }) });
+    const action = createFormAction('/users', {
+      client,
+      validation: { email: { asyncValidator: async () => { throw new Error('lookup failed'); } } },
+    });
+
+    const state = await action(initialState, form({ email: 'ada@example.com' }));
+
+    expect(state.success).toBe(false);
+    expect(state.fieldErrors).toEqual({ email: ['email could not be checked, please try again'] });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('returns an error state when a rule itself throws', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const client = new DataManagementAPI({ transport: createMockTransport({}) });
+    const action = createFormAction('/users', {
+      client,
+      validation: { email: { custom: () => { throw new Error('bad rule'); } } },
+    });
+
+    const state = await action(initialState, form({ email: 'ada@example.com' }));
+
+    expect(state.success).toBe(false);
+    expect(state.error).toMatchObject({ message: 'bad rule' });
+    expect(state.values).toEqual({ email: 'ada@example.com' });
+  });
+
+  it('submits once validation passes', async () => {
+    const client = new DataManagementAPI({
+      transport: createMockTransport({ 'POST /api/users': () => ({ status: 201, body: { id: 7, email: 'ada@example.com' } }) }),
+    });
+    const action = createFormAction<{ id: number }>('/users', {
+      client,
+      validation: { email: { type: 'email', asyncValidator: async () => null } },
+    });
+
+    const state = await action(initialState, form({ email: 'ada@example.com' }));
+
+    expect(state.success).toBe(true);
+    expect(state.data).toEqual({ id: 7, email: 'ada@example.com' });
+  });
+});
+
+describe('DataManagementAPI.fetchData', () => {
+  // Each GET waits `delay` ms, so concurrent calls overlap
+  function slowClient(delay = 20) {
+    const handler = vi.fn(() => ({ body: [{ id: 1 }], delay }));
+    const client = new DataManagementAPI({ transport: createMockTransport({ 'GET /api/items': handler }) });
+    return { client, handler };
+  }
+
+  it('shares one request between concurrent callers', async () => {
+    const { client, handler } = slowClient();
+
+    const [first, second] = await Promise.all([client.fetchData('/items'), client.fetchData('/items')]);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(first.data).toEqual([{ id: 1 }]);
+    expect(second.data).toEqual([{ id: 1 }]);
+  });
+
+  it('sends separate requests with dedupe: false', async () => {
+    const { client, handler } = slowClient();
+
+    await Promise.all([client.fetchData('/items'), client.fetchData('/items', { dedupe: false })]);
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('detaches an aborted caller while the others keep the request', async () => {
+    const { client } = slowClient();
+    const controller = new AbortController();
+
+    const aborted = client.fetchData('/items', { signal: controller.signal });
+    const kept = client.fetchData('/items');
+    controller.abort();
+
+    expect(await aborted).toMatchObject({ success: false, error: { code: 'REQUEST_ABORTED' } });
+    expect(await kept).toMatchObject({ success: true, data: [{ id: 1 }] });
+  });
+
+  it('cancels the request once every caller aborted, without reporting it', async () => {
+    const listener = vi.fn();
+    const removeListener = ErrorHandler.addListener(listener);
+    const { client } = slowClient();
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const results = Promise.all([
+      client.fetchData('/items', { signal: first.signal }),
+      client.fetchData('/items', { signal: second.signal }),
+    ]);
+    first.abort();
+    second.abort();
+
+    for (const result of await results) {
+      expect(result).toMatchObject({ success: false, error: { code: 'REQUEST_ABORTED' } });
+    }
+    // Let the cancelled shared request settle
+    await new Promise(resolve => setTimeout(resolve, 30));
+    removeListener();
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('validates the shared response against each caller\'s schema', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const handler = vi.fn(() => ({ body: { nope: 1 }, delay: 20 }));
+    const client = new DataManagementAPI({ transport: createMockTransport({ 'GET /api/items': handler }) });
+
+    const [plain, checked] = await Promise.all([
+      client.fetchData('/items'),
+      client.fetchData('/items', { schema: { type: 'object', schema: { title: { type: 'string', required: true } } } }),
+    ]);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(plain).toMatchObject({ success: true, data: { nope: 1 } });
+    expect(checked).toMatchObject({ success: false, error: { code: 'SCHEMA_MISMATCH' } });
+  });
+
+  it('caches the shared response for callers that asked for it', async () => {
+    const { client, handler } = slowClient();
+
+    await Promise.all([client.fetchData('/items'), client.fetchData('/items', { cache: true, tags: ['items'] })]);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(client.queryCache.getState('/items')?.data).toEqual([{ id: 1 }]);
+  });
+
+  it('does not share a request between different retry policies', async () => {
+    const { client, handler } = slowClient();
+
+    await Promise.all([client.fetchData('/items'), client.fetchData('/items', { retry: false })]);
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('serves fresh cached data without a request', async () => {
+    const { client, handler } = slowClient(0);
+
+    await client.fetchData('/items', { cache: true });
+    const cached = await client.fetchData('/items', { cache: true, revalidate: 60_000 });
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(cached.data).toEqual([{ id: 1 }]);
+  });
+});
+
+describe('DataManagementAPI.submitForm', () => {
+  it('returns an aborted submit without reporting it', async () => {
+    const listener = vi.fn();
+    const removeListener = ErrorHandler.addListener(listener);
+    const client = new DataManagementAPI({
+      transport: createMockTransport({ 'POST /api/todos': () => ({ status: 201, body: { id: 1 }, delay: 1_000 }) }),
+    });
+    const controller = new AbortController();
+
+    const pending = client.submitForm(form({ title: 'Draft' }), '/todos', { signal: controller.signal });
+    setTimeout(() => controller.abort(), 5);
+    const result = await pending;
+    removeListener();
+
+    expect(result).toMatchObject({ success: false, error: { code: 'REQUEST_ABORTED' } });
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
+
+describe('createFormAction optimistic inserts', () => {
+  it('shows the entity in cached lists and swaps in the server ID', async () => {
+    let respond!: () => void;
+    const handler = vi.fn(() => new Promise<{ status: number; body: unknown }>((resolve) => {
+      respond = () => resolve({ status: 201, body: { id: 42, title: 'Draft' } });
+    }));
+    const client = new DataManagementAPI({ transport: createMockTransport({ 'POST /api/todos': handler }) });
+    client.queryCache.set('/todos', [{ id: 1, title: 'First' }], ['todos']);
+    const action = createFormAction<{ id: number | string; title: string }>('/todos', {
+      client,
+      insertInto: ['todos'],
+      encoding: 'json',
+    });
+
+    const pending = action(initialState, form({ title: 'Draft' }));
+    await vi.waitFor(() => expect(handler).toHaveBeenCalled());
+
+    const optimistic = client.queryCache.getState<{ id: unknown; title: string }[]>('/todos')?.data;
+    expect(optimistic).toHaveLength(2);
+    expect(optimistic?.[1]).toMatchObject({ title: 'Draft', pending: true });
+
+    respond();
+    const state = await pending;
+
+    expect(state.success).toBe(true);
+    expect(client.queryCache.getState('/todos')?.data).toEqual([{ id: 1, title: 'First' }, { id: 42, title: 'Draft' }]);
+  });
+
+  it('removes the optimistic entity when the submit fails', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const client = new DataManagementAPI({
+      transport: createMockTransport({ 'POST /api/todos': () => ({ status: 500, body: { message: 'Down' } }) }),
+      retry: false,
+    });
+    client.queryCache.set('/todos', [{ id: 1, title: 'First' }], ['todos']);
+    const action = createFormAction('/todos', { client, insertInto: ['todos'] });
+
+    const state = await action(initialState, form({ title: 'Draft' }));
+
+    expect(state.success).toBe(false);
+    expect(client.queryCache.getState('/todos')?.data).toEqual([{ id: 1, title: 'First' }]);
+    expect(consoleError).toHaveBeenCalledWith('API Error:', expect.objectContaining({ message: 'Down', status: 500 }));
+  });
+});
@@ -1,57 +1,287 @@
 // Advanced Data Management API using React 19 features
-import type { FormState, OptimisticUpdate, ApiResponse, ApiError } from '../types';
+import type {
+  FormState,
+  OptimisticUpdate,
+  ApiResponse,
+  ApiError,
+  DataClientConfig,
+  AuthTokenProvider,
+  HttpMethod,
+  FormBody,
+  BodyEncoding,
+  UploadProgress,
+  Transport,
+  TransportRequest,
+  RequestInterceptor,
+  ResponseInterceptor,
+  RetryPolicy,
+  QueryParams,
+} from '../types';
+import { fetchTransport, xhrTransport } from './transport';
+import { encodeBody, hasFiles, parseResponse } from './body';
+import { fieldErrorsFrom, formValues, warningsFrom } from './form-state';
+import { QueryCache, withQueryParams } from './query-cache';
+import {
+  assertSchema,
+  resolvePath,
+  type EndpointArgs,
+  type EndpointDefinition,
+  type EndpointResponse,
+} from './endpoints';
+import { OfflineMutationQueue, isOfflineError } from './offline-queue';
+import {
+  resolveRetryPolicy,
+  isIdempotentMethod,
+  isRetryableError,
+  getRetryDelay,
+  parseRetryAfter,
+  waitForRetry,
+} from './retry';
+import {
+  APIError,
+  ErrorHandler,
+  HTTPError,
+  NetworkError,
+  PermissionError,
+  ValidationError,
+  Validator,
+  type ObjectSchemaRule,
+  type ValidationResult,
+  type ValidationRules,
+} from '../error-handling';
+import { Messages } from '../messages';
+
+type ClientRequestInit = Omit<TransportRequest, 'url' | 'method' | 'headers'> & {
+  method?: HttpMethod;
+  headers?: Record<string, string>;
+  retry?: RetryPolicy | false;
+  // Overrides the client's transport for this request
+  transport?: Transport;
+};
+
+interface InflightRequest {
+  promise: Promise<ApiResponse<unknown>>;
+  controller: AbortController;
+  consumers: number;
+}
 
 /**
  * React 19 Server Actions Integration
  * Handles form submissions with optimistic updates
+ *
+ * Each instance is a client bound to one backend: base URL, default
+ * headers, auth token provider and transport are all configurable.
  */
 export class DataManagementAPI {
-  private static baseUrl = '/api';
+  private baseUrl: string;
+  private headers: Record<string, string>;
+  private getAuthToken?: AuthTokenProvider;
+  private transport: Transport;
+  private requestInterceptors: Set<RequestInterceptor>;
+  private responseInterceptors: Set<ResponseInterceptor>;
+  private retry?: RetryPolicy | false;
+  private inflight = new Map<string, InflightRequest>();
+  readonly queryCache: QueryCache;
+  readonly offlineQueue: OfflineMutationQueue | null;
+
+  constructor(config: DataClientConfig = {}) {
+    this.baseUrl = config.baseUrl ?? '/api';
+    this.headers = config.headers ?? {};
+    this.getAuthToken = config.getAuthToken;
+    this.transport = config.transport ?? fetchTransport;
+    this.requestInterceptors = new Set(config.requestInterceptors);
+    this.responseInterceptors = new Set(config.responseInterceptors);
+    this.retry = config.retry;
+    this.queryCache = new QueryCache(config.queryCache);
+    this.offlineQueue = config.offlineQueue && OfflineMutationQueue.isSupported()
+      ? new OfflineMutationQueue(this, config.offlineQueue === true ? {} : config.offlineQueue)
+      : null;
+  }
+
+  /**
+   * Interceptors run in registration order; each returns a remover
+   */
+  addRequestInterceptor(interceptor: RequestInterceptor): () => void {
+    this.requestInterceptors.add(interceptor);
+    return () => this.requestInterceptors.delete(interceptor);
+  }
+
+  addResponseInterceptor(interceptor: ResponseInterceptor): () => void {
+    this.responseInterceptors.add(interceptor);
+    return () => this.responseInterceptors.delete(interceptor);
+  }
+
+  /**
+   * Send a request through the interceptor pipeline and configured transport,
+   * retrying per the merged global/per-call policy. Non-2xx responses that
+   * survive the response interceptors are thrown as `APIError`s carrying the
+   * status code and parsed body.
+   */
+  async request(endpoint: string, init: ClientRequestInit = {}): Promise<Response> {
+    const { retry, ...requestInit } = init;
+    const policy = resolveRetryPolicy(this.retry, retry);
+    const method = requestInit.method ?? 'GET';
+    // POST and PATCH are only retried when the call opted in with `idempotencyKey`
+    const canRetry = policy.maxAttempts > 1 && (isIdempotentMethod(method) || policy.idempotencyKey);
+
+    // The same key on every attempt lets the server drop duplicate POSTs
+    if (canRetry && !isIdempotentMethod(method)) {
+      requestInit.headers = { 'Idempotency-Key': crypto.randomUUID(), ...requestInit.headers };
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      let retryAfter: number | null = null;
+
+      try {
+        const response = await this.send(endpoint, requestInit);
+        if (response.ok) {
+          return response;
+        }
+        retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+        throw await errorFromResponse(response, { method, url: response.url || `${this.baseUrl}${endpoint}` });
+      } catch (error) {
+        if (
+          !canRetry ||
+          attempt >= policy.maxAttempts ||
+          requestInit.signal?.aborted ||
+          !isRetryableError(error, policy)
+        ) {
+          throw error;
+        }
+
+        const delay = getRetryDelay(attempt, policy, retryAfter);
+
+        ErrorHandler.notify(new APIError(
+          Messages.format('error.retrying', { method, endpoint, attempt, maxAttempts: policy.maxAttempts }),
+          'RETRY_ATTEMPT',
+          {
+            endpoint,
+            method,
+            attempt,
+            maxAttempts: policy.maxAttempts,
+            delay,
+            code: error instanceof APIError ? error.code : 'NETWORK_ERROR',
+            message: error instanceof Error ? error.message : String(error),
+          }
+        ));
+
+        await waitForRetry(delay, requestInit.signal);
+      }
+    }
+  }
+
+  private async send(endpoint: string, init: ClientRequestInit): Promise<Response> {
+    const { transport = this.transport, ...requestInit } = init;
+    let request = await this.prepareRequest(endpoint, requestInit);
+    let response = await transport(request).catch((error: unknown) => {
+      throw networkErrorFrom(error, request);
+    });
+
+    for (const interceptor of this.responseInterceptors) {
+      response = await interceptor(response, {
+        request,
+        replay: async () => {
+          request = await this.prepareRequest(endpoint, requestInit);
+          return transport(request);
+        },
+      });
+    }
+
+    return response;
+  }
+
+  private async prepareRequest(endpoint: string, init: ClientRequestInit): Promise<TransportRequest> {
+    const headers: Record<string, string> = { ...this.headers, ...init.headers };
+
+    const token = await this.getAuthToken?.();
+    if (token) {
+      headers.Authorization = `Bearer ${token}`;
+    }
+
+    let request: TransportRequest = {
+      ...init,
+      url: `${this.baseUrl}${endpoint}`,
+      method: init.method ?? 'GET',
+      headers,
+    };
+
+    for (const interceptor of this.requestInterceptors) {
+      request = await interceptor(request);
+    }
+
+    return request;
+  }
 
   /**
    * Generic server action for form handling
+   *
+   * Sends FormData as multipart, URLSearchParams as URL-encoded and plain
+   * objects as JSON unless `encoding` says otherwise. `onUploadProgress`
+   * switches fetch to XHR for bodies with files, since fetch cannot report
+   * upload progress. NDJSON and text responses are streamed to `onChunk`.
+   *
+   * `mapOptimistic` builds the optimistic entity in the server's shape;
+   * without it the body's fields are copied as-is. Either way the entity
+   * carries `tempId` (or a fresh temporary ID) until the server replies.
    */
-  static async submitForm<T>(
-    formData: FormData,
+  async submitForm<T, B extends FormBody = FormBody>(
+    body: B,
     endpoint: string,
     options?: {
       optimistic?: boolean;
       onOptimisticUpdate?: (data: T) => void;
+      mapOptimistic?: (body: B, tempId: string) => T;
+      tempId?: string;
+      retry?: RetryPolicy | false;
+      encoding?: BodyEncoding;
+      onUploadProgress?: (progress: UploadProgress) => void;
+      onChunk?: (chunk: unknown, chunks: unknown[]) => void;
+      signal?: AbortSignal;
     }
-  ): Promise<ApiResponse<T>> {
+  ): Promise<ApiResponse<T> & { chunks?: unknown[] }> {
     try {
       // Optimistic update if enabled
       if (options?.optimistic && options.onOptimisticUpdate) {
-        const optimisticData = this.createOptimisticData<T>(formData);
+        const tempId = options.tempId ?? createTempId();
+        const optimisticData = options.mapOptimistic
+          ? options.mapOptimistic(body, tempId)
+          : this.createOptimisticData<T>(body, tempId);
         options.onOptimisticUpdate(optimisticData);
       }
 
-      const response = await fetch(`${this.baseUrl}${endpoint}`, {
+      const encoded = encodeBody(body, options?.encoding);
+      const trackUpload = options?.onUploadProgress && hasFiles(body) && this.transport === fetchTransport;
+
+      const response = await this.request(endpoint, {
         method: 'POST',
-        body: formData,
+        headers: encoded.headers,
+        body: encoded.body,
+        retry: options?.retry,
+        signal: options?.signal,
+        onUploadProgress: options?.onUploadProgress,
+        transport: trackUpload ? xhrTransport : undefined,
       });
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const data = await response.json();
+      const { data, chunks } = await parseResponse<T>(response, options?.onChunk);
       
       return {
         data,
+        chunks,
         success: true,
         timestamp: Date.now(),
       };
     } catch (error) {
-      const apiError: ApiError = {
-        code: 'FORM_SUBMISSION_ERROR',
-        message: error instanceof Error ? error.message : 'Unknown error',
-      };
+      // A cancelled or superseded submit is not worth reporting
+      const apiError: ApiError = ErrorHandler.normalize(error);
+      if (apiError.code !== 'REQUEST_ABORTED') {
+        ErrorHandler.handle(apiError);
+      }
 
       return {
-        data: null,
+        data: null as T,
         success: false,
         message: apiError.message,
+        error: apiError,
         timestamp: Date.now(),
       };
     }
@@ -60,77 +290,291 @@ export class DataManagementAPI {
   /**
    * Create optimistic data from form data
    */
-  private static createOptimisticData<T>(formData: FormData): T {
+  private createOptimisticData<T>(body: FormBody, tempId: string): T {
     const data: any = {};
-    for (const [key, value] of formData.entries()) {
+    const entries = body instanceof FormData || body instanceof URLSearchParams
+      ? body.entries()
+      : Object.entries(body);
+    for (const [key, value] of entries) {
       data[key] = value;
     }
-    return { ...data, id: crypto.randomUUID(), pending: true } as T;
+    return { ...data, id: tempId, pending: true } as T;
   }
 
   /**
    * Advanced data fetching with caching
+   *
+   * Concurrent calls for the same endpoint and retry policy share one
+   * in-flight request. Each caller still applies its own `schema`, `cache`
+   * and `tags` to the shared response. Aborting `signal` detaches that
+   * caller; the shared request is only cancelled once every caller aborted.
    */
-  static async fetchData<T>(
+  async fetchData<T>(
     endpoint: string,
     options?: {
       cache?: boolean;
       revalidate?: number;
+      params?: QueryParams;
+      tags?: string[];
+      retry?: RetryPolicy | false;
+      signal?: AbortSignal;
+      dedupe?: boolean;
+      // Responses that do not match fail with a SchemaError
+      schema?: ObjectSchemaRule;
     }
   ): Promise<ApiResponse<T>> {
-    const cacheKey = `data_${endpoint}`;
+    const cacheKey = QueryCache.key(endpoint, options?.params);
     
     // Check cache first
     if (options?.cache) {
-      const cached = this.getFromCache<T>(cacheKey);
-      if (cached && !this.isCacheExpired(cached, options.revalidate)) {
-        return cached;
+      const cached = this.queryCache.getState<T>(cacheKey);
+      if (cached?.data !== undefined && !this.queryCache.isStale(cacheKey, options.revalidate ?? Infinity)) {
+        return {
+          data: cached.data,
+          success: true,
+          timestamp: cached.updatedAt,
+        };
       }
     }
 
-    try {
-      const response = await fetch(`${this.baseUrl}${endpoint}`);
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+    if (options?.signal?.aborted) {
+      return this.abortedResponse<T>();
+    }
+
+    // Calls with different retry policies would not send the same requests
+    const dedupeKey = options?.retry === undefined
+      ? `${this.baseUrl}${cacheKey}`
+      : `${this.baseUrl}${cacheKey} retry=${JSON.stringify(options.retry)}`;
+    let inflight = options?.dedupe === false ? undefined : this.inflight.get(dedupeKey);
+
+    if (!inflight) {
+      const controller = new AbortController();
+      const entry: InflightRequest = {
+        controller,
+        consumers: 0,
+        promise: this.load(cacheKey, controller.signal, options?.retry).finally(() => {
+          if (this.inflight.get(dedupeKey) === entry) {
+            this.inflight.delete(dedupeKey);
+          }
+        }),
+      };
+      inflight = entry;
+
+      if (options?.dedupe !== false) {
+        this.inflight.set(dedupeKey, entry);
       }
+    }
+
+    const result = await this.consume<unknown>(inflight, options?.signal);
+    return this.settle<T>(result, cacheKey, options);
+  }
+
+  private async load(
+    cacheKey: string,
+    signal: AbortSignal,
+    retry?: RetryPolicy | false
+  ): Promise<ApiResponse<unknown>> {
+    try {
+      // The cache key is the endpoint with its sorted query string
+      const response = await this.request(cacheKey, { retry, signal });
+      const data: unknown = await response.json();
 
-      const data = await response.json();
-      const result: ApiResponse<T> = {
+      return {
         data,
         success: true,
         timestamp: Date.now(),
       };
+    } catch (error) {
+      // Cancelled once every caller aborted, which is not worth reporting
+      const apiError: ApiError = ErrorHandler.normalize(error);
+      if (apiError.code !== 'REQUEST_ABORTED') {
+        ErrorHandler.handle(apiError);
+      }
+
+      return {
+        data: null,
+        success: false,
+        message: apiError.message,
+        error: apiError,
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Validate and cache a shared response for one caller
+   */
+  private settle<T>(
+    result: ApiResponse<unknown>,
+    cacheKey: string,
+    options?: { cache?: boolean; tags?: string[]; schema?: ObjectSchemaRule }
+  ): ApiResponse<T> {
+    if (!result.success) {
+      return result as ApiResponse<T>;
+    }
+
+    try {
+      const data = options?.schema
+        ? assertSchema<T>(result.data, options.schema, `Response from GET ${cacheKey}`)
+        : result.data as T;
 
       // Cache the result
       if (options?.cache) {
-        this.setCache(cacheKey, result);
+        this.queryCache.set(cacheKey, data, options.tags);
       }
 
-      return result;
+      return { ...result, data };
     } catch (error) {
+      const apiError: ApiError = ErrorHandler.handle(error);
+
       return {
         data: null as T,
         success: false,
-        message: error instanceof Error ? error.message : 'Fetch failed',
+        message: apiError.message,
+        error: apiError,
         timestamp: Date.now(),
       };
     }
   }
 
+  private consume<T>(inflight: InflightRequest, signal?: AbortSignal): Promise<ApiResponse<T>> {
+    inflight.consumers++;
+    const shared = inflight.promise as Promise<ApiResponse<T>>;
+
+    if (!signal) {
+      return shared;
+    }
+
+    return new Promise((resolve) => {
+      const onAbort = () => {
+        inflight.consumers--;
+        if (inflight.consumers === 0) {
+          inflight.controller.abort();
+        }
+        resolve(this.abortedResponse<T>());
+      };
+
+      signal.addEventListener('abort', onAbort, { once: true });
+      shared.then((result) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(result);
+      });
+    });
+  }
+
+  // An expected cancellation, so listeners and the console never see it
+  private abortedResponse<T>(): ApiResponse<T> {
+    const apiError = ErrorHandler.normalize(new DOMException('The request was aborted', 'AbortError'));
+
+    return {
+      data: null as T,
+      success: false,
+      message: apiError.message,
+      error: apiError,
+      timestamp: Date.now(),
+    };
+  }
+
+  /**
+   * Cached query that throws on failure; backs useQuery
+   */
+  query<T>(
+    endpoint: string,
+    options: {
+      params?: QueryParams;
+      tags?: string[];
+      staleTime?: number;
+      force?: boolean;
+      schema?: ObjectSchemaRule;
+    } = {}
+  ): Promise<T> {
+    const key = QueryCache.key(endpoint, options.params);
+
+    return this.queryCache.fetch<T>(key, () => this.queryFetcher<T>(key, options.schema), {
+      staleTime: options.staleTime,
+      tags: options.tags,
+      force: options.force,
+    });
+  }
+
+  /**
+   * Stable promise per endpoint and params for `use(client.resource(...))`.
+   * Rejects with the APIError so it reaches the nearest error boundary.
+   */
+  resource<T>(
+    endpoint: string,
+    options: { params?: QueryParams; tags?: string[] } = {}
+  ): Promise<T> {
+    const key = QueryCache.key(endpoint, options.params);
+    return this.queryCache.read<T>(key, () => this.queryFetcher<T>(key), options.tags);
+  }
+
+  private async queryFetcher<T>(key: string, schema?: ObjectSchemaRule): Promise<T> {
+    // The key already carries the sorted query string
+    const result = await this.fetchData<T>(key, { schema });
+    if (!result.success) {
+      throw result.error;
+    }
+    return result.data;
+  }
+
+  /**
+   * Call a typed endpoint. The body and query are checked against their
+   * schemas before sending and the response after receiving; mismatches
+   * throw a SchemaError whose details list the offending fields.
+   */
+  async call<E extends EndpointDefinition>(
+    endpoint: E,
+    ...[input]: EndpointArgs<E>
+  ): Promise<EndpointResponse<E>> {
+    const method = endpoint.method ?? 'GET';
+    const { params, query, body, signal, retry } = input ?? {};
+    const label = `${method} ${endpoint.path}`;
+
+    if (endpoint.body) {
+      assertSchema(body, { type: 'object', required: true, schema: endpoint.body }, `Request body for ${label}`);
+    }
+    if (endpoint.query && query) {
+      assertSchema(query, { type: 'object', schema: endpoint.query }, `Query for ${label}`);
+    }
+
+    const path = resolvePath(endpoint.path, params);
+    const response = await this.request(withQueryParams(path, query as QueryParams | undefined), {
+      method,
+      headers: body !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+      signal,
+      retry,
+    });
+
+    const text = await response.text();
+    return assertSchema<EndpointResponse<E>>(text ? JSON.parse(text) : null, endpoint.response, `Response from ${label}`);
+  }
+
   /**
    * Optimistic mutations with rollback
+   *
+   * With an offline queue configured, mutations made or failing while the
+   * browser is offline stay pending (`queued: true`) and are replayed in
+   * order on reconnect; the same callbacks then receive the success, or the
+   * rollback and a `MUTATION_CONFLICT` error if the server rejects it. An
+   * unreachable server while online rolls back like any other failure.
    */
-  static async optimisticMutation<T>(
+  async optimisticMutation<T>(
     data: T,
     endpoint: string,
     options: {
+      method?: 'POST' | 'PUT' | 'DELETE';
       onOptimisticUpdate: (update: OptimisticUpdate<T>) => void;
       onRollback: (id: string) => void;
       onSuccess: (data: T) => void;
     }
   ): Promise<void> {
     const optimisticId = crypto.randomUUID();
+    // Shared by the first attempt and any offline replay of it
+    const idempotencyKey = this.offlineQueue ? crypto.randomUUID() : undefined;
+    const method = options.method ?? 'POST';
+    const { onOptimisticUpdate, onRollback, onSuccess } = options;
     
     // Apply optimistic update
     const optimisticUpdate: OptimisticUpdate<T> = {
@@ -139,102 +583,266 @@ export class DataManagementAPI {
       pending: true,
     };
     
-    options.onOptimisticUpdate(optimisticUpdate);
+    onOptimisticUpdate(optimisticUpdate);
+
+    // Falls back to the rollback path if IndexedDB is unavailable
+    const enqueue = async (): Promise<boolean> => {
+      try {
+        await this.offlineQueue!.enqueue(
+          { id: optimisticId, endpoint, method, data, createdAt: Date.now(), idempotencyKey },
+          { onOptimisticUpdate, onRollback, onSuccess }
+        );
+        onOptimisticUpdate({ ...optimisticUpdate, queued: true });
+        return true;
+      } catch {
+        return false;
+      }
+    };
+
+    // Queue behind earlier offline mutations so they replay in order
+    if (this.offlineQueue && (!navigator.onLine || await this.offlineQueue.size().catch(() => 0) > 0)) {
+      if (await enqueue()) return;
+    }
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (idempotencyKey) {
+      headers['Idempotency-Key'] = idempotencyKey;
+    }
 
     try {
-      const response = await fetch(`${this.baseUrl}${endpoint}`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(data),
+      const response = await this.request(endpoint, {
+        method,
+        headers,
+        body: method === 'DELETE' ? undefined : JSON.stringify(data),
       });
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+      // DELETE (and some PUT) endpoints reply with an empty body
+      const text = await response.text();
+      const result: T = text ? JSON.parse(text) : data;
+      onSuccess(result);
+    } catch (error) {
+      const apiError = ErrorHandler.handle(error);
+
+      if (this.offlineQueue && isOfflineError(apiError) && await enqueue()) {
+        return;
       }
 
-      const result = await response.json();
-      options.onSuccess(result);
-    } catch (error) {
       // Rollback optimistic update
-      options.onRollback(optimisticId);
+      onRollback(optimisticId);
       
       const errorUpdate: OptimisticUpdate<T> = {
         id: optimisticId,
         data,
         pending: false,
-        error: {
-          code: 'MUTATION_ERROR',
-          message: error instanceof Error ? error.message : 'Mutation failed',
-        },
+        error: apiError,
       };
       
-      options.onOptimisticUpdate(errorUpdate);
+      onOptimisticUpdate(errorUpdate);
     }
   }
+}
 
-  /**
-   * Cache management utilities
-   */
-  private static getFromCache<T>(key: string): ApiResponse<T> | null {
-    try {
-      const cached = localStorage.getItem(key);
-      return cached ? JSON.parse(cached) : null;
-    } catch {
-      return null;
-    }
+/**
+ * Map an HTTP error response to the matching APIError subclass. 401/403 and
+ * 422 become PermissionError and ValidationError with the HTTPError as
+ * their `cause`; everything else is the HTTPError itself.
+ */
+export async function errorFromResponse(
+  response: Response,
+  request?: Pick<TransportRequest, 'url' | 'method'>
+): Promise<APIError> {
+  const text = await response.text().catch(() => '');
+  let body: unknown = text;
+  try {
+    body = text ? JSON.parse(text) : null;
+  } catch {
+    // Keep plain-text bodies as-is
   }
 
-  private static setCache<T>(key: string, data: ApiResponse<T>): void {
-    try {
-      localStorage.setItem(key, JSON.stringify(data));
-    } catch {
-      // Ignore cache errors
-    }
+  const serverMessage = body && typeof body === 'object' && 'message' in body && typeof body.message === 'string'
+    ? body.message
+    : undefined;
+
+  const httpError = new HTTPError(serverMessage ?? Messages.format('error.http', { status: response.status }), {
+    status: response.status,
+    statusText: response.statusText,
+    url: response.url || request?.url || '',
+    method: request?.method ?? 'GET',
+    headers: Object.fromEntries(response.headers.entries()),
+    body,
+  });
+
+  switch (response.status) {
+    case 401:
+    case 403:
+      return new PermissionError(serverMessage, httpError.details, { cause: httpError });
+    case 422:
+      return new ValidationError(serverMessage, httpError.details, { cause: httpError });
+    default:
+      return httpError;
   }
+}
 
-  private static isCacheExpired<T>(
-    cached: ApiResponse<T>,
-    revalidateMs?: number
-  ): boolean {
-    if (!revalidateMs) return false;
-    return Date.now() - cached.timestamp > revalidateMs;
+/**
+ * Transports reject with a bare TypeError when the network is unreachable;
+ * wrap it so callers get a NetworkError that still knows the request
+ */
+function networkErrorFrom(error: unknown, request: TransportRequest): unknown {
+  const apiError = ErrorHandler.normalize(error);
+  if (!(apiError instanceof NetworkError) || apiError === error) {
+    return error;
   }
+  return new NetworkError(apiError.message, { url: request.url, method: request.method }, { cause: error });
+}
+
+const TEMP_ID_PREFIX = 'temp_';
+
+/**
+ * Placeholder ID for optimistic entities, swapped for the server's ID later
+ */
+export function createTempId(): string {
+  return `${TEMP_ID_PREFIX}${crypto.randomUUID()}`;
+}
+
+export function isTempId(id: unknown): boolean {
+  return typeof id === 'string' && id.startsWith(TEMP_ID_PREFIX);
 }
 
+/**
+ * Shared client used when no other client is passed in
+ */
+export const dataClient = new DataManagementAPI();
+
 /**
  * React 19 Action State Hook Integration
+ *
+ * With `insertInto`, the optimistic entity is appended to those cached
+ * lists while the request runs and removed again if it fails. On success
+ * its temporary ID is swapped for the server's across all cached queries.
+ *
+ * `validation` rules run before anything is sent; failures short-circuit
+ * with `fieldErrors` and no network request.
  */
 export function createFormAction<T>(
   endpoint: string,
   options?: {
     optimistic?: boolean;
+    // Query tags or endpoints to invalidate after a successful submit
     revalidate?: string[];
+    client?: DataManagementAPI;
+    encoding?: BodyEncoding;
+    onUploadProgress?: (progress: UploadProgress) => void;
+    onChunk?: (chunk: unknown, chunks: unknown[]) => void;
+    mapOptimistic?: (formData: FormData, tempId: string) => T;
+    onOptimisticUpdate?: (data: T) => void;
+    // Query tags or endpoints whose cached lists show the optimistic entity
+    insertInto?: string[];
+    // Reads the server-assigned ID from the response; defaults to `data.id`
+    getId?: (data: T) => string | number | null | undefined;
+    validation?: ValidationRules;
   }
 ) {
-  return async (prevState: FormState<T>, formData: FormData) => {
-    const result = await DataManagementAPI.submitForm<T>(
+  const client = options?.client ?? dataClient;
+  const getId = options?.getId ?? ((data: T) => (data as { id?: string | number } | null)?.id);
+
+  return async (prevState: FormState<T>, formData: FormData): Promise<FormState<T>> => {
+    if (options?.validation) {
+      let validation: ValidationResult;
+      try {
+        validation = await Validator.validateFormDataAsync(formData, options.validation);
+      } catch (error) {
+        // A failing async validator is already a field error; this is an abort or a throwing rule
+        const apiError = ErrorHandler.normalize(error);
+        if (apiError.code !== 'REQUEST_ABORTED') {
+          ErrorHandler.handle(apiError);
+        }
+        return {
+          data: prevState.data,
+          pending: false,
+          success: false,
+          error: apiError,
+          values: formValues(formData),
+        };
+      }
+
+      const { isValid, fieldErrors } = validation;
+      if (!isValid) {
+        const error = new ValidationError(Messages.format('form.invalid'), { fields: fieldErrors });
+        return {
+          data: prevState.data,
+          pending: false,
+          success: false,
+          error,
+          fieldErrors: fieldErrorsFrom(error),
+          values: formValues(formData),
+        };
+      }
+    }
+
+    const tempId = createTempId();
+    const insertInto = options?.insertInto;
+    const isOptimistic = (item: unknown) => item != null && getId(item as T) === tempId;
+
+    const result = await client.submitForm<T, FormData>(
       formData,
       endpoint,
-      options
+      {
+        ...options,
+        optimistic: options?.optimistic || Boolean(insertInto?.length),
+        tempId,
+        onOptimisticUpdate: (entity) => {
+          if (insertInto?.length) {
+            client.queryCache.setQueriesData<unknown>(insertInto, list => Array.isArray(list) ? [...list, entity] : list);
+          }
+          options?.onOptimisticUpdate?.(entity);
+        },
+      }
     );
 
     if (result.success) {
+      if (insertInto?.length && result.data) {
+        client.queryCache.setQueriesData<unknown>(insertInto, list => Array.isArray(list)
+          ? list.map(item => isOptimistic(item) ? result.data : item)
+          : list
+        );
+      }
+
+      const serverId = getId(result.data);
+      if (serverId != null) {
+        client.queryCache.swapId(tempId, serverId);
+      }
+      if (options?.revalidate?.length) {
+        client.queryCache.invalidate(options.revalidate);
+      }
+
       return {
         data: result.data,
         pending: false,
         success: true,
         error: undefined,
+        chunks: result.chunks,
+        warnings: warningsFrom(result.data),
       };
     } else {
+      if (insertInto?.length) {
+        client.queryCache.setQueriesData<unknown>(insertInto, list => Array.isArray(list)
+          ? list.filter(item => !isOptimistic(item))
+          : list
+        );
+      }
+
       return {
         data: prevState.data,
         pending: false,
         success: false,
-        error: {
+        error: result.error ?? {
           code: 'FORM_ERROR',
-          message: result.message || 'Form submission failed',
+          message: result.message || Messages.format('form.failed'),
         },
+        fieldErrors: fieldErrorsFrom(result.error),
+        values: formValues(formData),
+        warnings: warningsFrom(result.error?.details?.body),
       };
     }
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import type { TransportRequest } from '../types';
+import { SchemaError, ValidationError } from '../error-handling';
+import { DataManagementAPI } from './data-management';
+import { assertSchema, defineEndpoint, resolvePath } from './endpoints';
+
+const itemRule = {
+  type: 'object',
+  required: true,
+  schema: {
+    id: { type: 'number', required: true },
+    title: { type: 'string', required: true },
+  },
+} as const;
+
+const getItem = defineEndpoint({
+  path: '/projects/:projectId/items/:id',
+  query: { expand: { type: 'string' } },
+  response: itemRule,
+});
+
+const createItem = defineEndpoint({
+  method: 'POST',
+  path: '/items',
+  body: { title: { type: 'string', required: true } },
+  response: itemRule,
+});
+
+// Answers every request with `body` and records what was sent
+function recordingClient(body: unknown) {
+  const requests: TransportRequest[] = [];
+  const client = new DataManagementAPI({
+    transport: async (request) => {
+      requests.push(request);
+      return Response.json(body);
+    },
+  });
+  return { client, requests };
+}
+
+describe('resolvePath', () => {
+  it('substitutes and URL-encodes path params', () => {
+    expect(resolvePath('/projects/:projectId/items/:id', { projectId: 'a b', id: 7 })).toBe('/projects/a%20b/items/7');
+  });
+
+  it('throws a ValidationError naming a missing param', () => {
+    expect(() => resolvePath('/items/:id', {})).toThrow(ValidationError);
+    expect(() => resolvePath('/items/:id', {})).toThrow('Missing path param "id" for /items/:id');
+  });
+});
+
+describe('assertSchema', () => {
+  it('returns data that matches', () => {
+    expect(assertSchema({ id: 1, title: 'First' }, itemRule, 'Item')).toEqual({ id: 1, title: 'First' });
+  });
+
+  it('lists every offending field in the SchemaError', () => {
+    let error: unknown;
+    try {
+      assertSchema({ id: '1' }, itemRule, 'Response from GET /items/1');
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(SchemaError);
+    expect(error).toBeInstanceOf(ValidationError);
+    expect((error as SchemaError).message).toBe('Response from GET /items/1 does not match its schema: id, title');
+    expect((error as SchemaError).details).toEqual({
+      fields: {
+        id: ['id must be of type number'],
+        title: ['title is required'],
+      },
+    });
+  });
+});
+
+describe('DataManagementAPI.call', () => {
+  it('builds the URL from path params and query', async () => {
+    const { client, requests } = recordingClient({ id: 7, title: 'First' });
+
+    const item = await client.call(getItem, { params: { projectId: 3, id: 7 }, query: { expand: 'owner' } });
+
+    expect(item).toEqual({ id: 7, title: 'First' });
+    expect(requests[0]).toMatchObject({ method: 'GET', url: '/api/projects/3/items/7?expand=owner', body: undefined });
+  });
+
+  it('sends the body as JSON', async () => {
+    const { client, requests } = recordingClient({ id: 8, title: 'Draft' });
+
+    await client.call(createItem, { body: { title: 'Draft' } });
+
+    expect(requests[0]).toMatchObject({ method: 'POST', url: '/api/items', body: '{"title":"Draft"}' });
+    expect(requests[0].headers['Content-Type']).toBe('application/json');
+  });
+
+  it('rejects an invalid body before sending', async () => {
+    const { client, requests } = recordingClient({});
+
+    // @ts-expect-error title must be a string
+    await expect(client.call(createItem, { body: { title: 1 } })).rejects.toBeInstanceOf(ValidationError);
+    expect(requests).toHaveLength(0);
+  });
+
+  it('rejects a response that does not match its schema', async () => {
+    const { client } = recordingClient({ id: 7 });
+
+    await expect(client.call(getItem, { params: { projectId: 3, id: 7 } })).rejects.toMatchObject({
+      code: 'SCHEMA_MISMATCH',
+      details: { fields: { title: ['title is required'] } },
+    });
+  });
+});
@@ -0,0 +1,98 @@
+// Typed endpoint definitions validated against their schemas at runtime
+import type { HttpMethod, RetryPolicy } from '../types';
+import { SchemaError, Validator, ValidationError, type ObjectSchema, type ObjectSchemaRule } from '../error-handling';
+import { Messages } from '../messages';
+
+/**
+ * One endpoint declared once: types for params, query, body and response
+ * are all inferred from the definition
+ *
+ *   const getItem = defineEndpoint({
+ *     path: '/items/:id',
+ *     response: { type: 'object', required: true, schema: { title: { type: 'string', required: true } } },
+ *   });
+ *   const item = await client.call(getItem, { params: { id: 1 } }); // { title: string }
+ */
+export interface EndpointDefinition {
+  method?: HttpMethod;
+  // Path params are written as `:name`
+  path: string;
+  query?: ObjectSchema;
+  body?: ObjectSchema;
+  response: ObjectSchemaRule;
+}
+
+type SchemaPrimitives = {
+  string: string;
+  number: number;
+  boolean: boolean;
+};
+
+export type InferRule<R> =
+  R extends { type: 'array'; items: infer I } ? InferRule<I>[]
+  : R extends { type: 'array' } ? unknown[]
+  : R extends { schema: infer S } ? InferSchema<S>
+  : R extends { type: 'object' } ? Record<string, unknown>
+  : R extends { type: infer K extends keyof SchemaPrimitives } ? SchemaPrimitives[K]
+  : unknown;
+
+type RequiredKeys<S> = { [K in keyof S]: S[K] extends { required: true } ? K : never }[keyof S];
+
+export type InferSchema<S> =
+  { [K in RequiredKeys<S>]: InferRule<S[K]> } &
+  { [K in Exclude<keyof S, RequiredKeys<S>>]?: InferRule<S[K]> | null };
+
+type PathParamNames<P extends string> =
+  P extends `${string}:${infer Param}/${infer Rest}` ? Param | PathParamNames<`/${Rest}`>
+  : P extends `${string}:${infer Param}` ? Param
+  : never;
+
+export type EndpointInput<E extends EndpointDefinition> =
+  ([PathParamNames<E['path']>] extends [never]
+    ? { params?: undefined }
+    : { params: Record<PathParamNames<E['path']>, string | number> }) &
+  (E extends { query: infer Q } ? { query?: InferSchema<Q> } : { query?: undefined }) &
+  (E extends { body: infer B } ? { body: InferSchema<B> } : { body?: undefined }) &
+  { signal?: AbortSignal; retry?: RetryPolicy | false };
+
+export type EndpointResponse<E extends EndpointDefinition> = InferRule<E['response']>;
+
+// Lets callers skip the input argument when nothing in it is required
+export type EndpointArgs<E extends EndpointDefinition> =
+  object extends EndpointInput<E> ? [input?: EndpointInput<E>] : [input: EndpointInput<E>];
+
+/**
+ * Identity helper that keeps schema literals narrow for type inference
+ */
+export function defineEndpoint<const E extends EndpointDefinition>(definition: E): E {
+  return definition;
+}
+
+/**
+ * Substitute `:name` segments with URL-encoded params
+ */
+export function resolvePath(path: string, params: Record<string, string | number> = {}): string {
+  return path.replace(/:([A-Za-z0-9_]+)/g, (_, name: string) => {
+    if (!(name in params)) {
+      throw new ValidationError(Messages.format('error.pathParam', { name, path }), {
+        fields: { [name]: Messages.format('validation.required', { field: Messages.label(name) }) },
+      });
+    }
+    return encodeURIComponent(String(params[name]));
+  });
+}
+
+/**
+ * Check data against a schema rule, throwing a SchemaError that lists
+ * every offending field
+ */
+export function assertSchema<T>(data: unknown, rule: ObjectSchemaRule, context: string): T {
+  const errors = Validator.validateValue(data, rule, '');
+  const fields = Object.keys(errors);
+
+  if (fields.length > 0) {
+    const names = fields.map(field => field || Messages.format('validation.value')).join(', ');
+    throw new SchemaError(Messages.format('error.schema', { context, fields: names }), { fields: errors });
+  }
+  return data as T;
+}
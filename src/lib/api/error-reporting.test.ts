@@ -0,0 +1,287 @@
+import { createServer, type IncomingHttpHeaders } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { ErrorReportBatch } from '../types';
+import { APIError, ErrorHandler, SchemaError, ValidationError } from '../error-handling';
+import { ErrorReporter, fingerprintError, scrubSensitive } from './error-reporting';
+
+function createReporter(config: Partial<ConstructorParameters<typeof ErrorReporter>[0]> = {}) {
+  const batches: ErrorReportBatch[] = [];
+  const reporter = new ErrorReporter({
+    endpoint: '/__errors',
+    send: async (batch) => {
+      batches.push(batch);
+    },
+    ...config,
+  });
+  return { reporter, batches };
+}
+
+// A local collector on a free port that answers with `statuses` in turn (the last one repeats)
+async function startCollector(...statuses: number[]) {
+  const received: { method?: string; headers: IncomingHttpHeaders; batch: ErrorReportBatch }[] = [];
+  const server = createServer((req, res) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', (chunk) => {
+      body += chunk;
+    });
+    req.on('end', () => {
+      const status = statuses[Math.min(received.length, statuses.length - 1)] ?? 204;
+      received.push({ method: req.method, headers: req.headers, batch: JSON.parse(body) });
+      res.writeHead(status).end();
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    endpoint: `http://127.0.0.1:${port}/errors`,
+    received,
+    close: () => new Promise(resolve => server.close(resolve)),
+  };
+}
+
+// jsdom's Blob has no text()
+function readBlob(blob: Blob): Promise<string> {
+  return new Promise((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.readAsText(blob);
+  });
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('scrubSensitive', () => {
+  it('filters sensitive keys in any casing style', () => {
+    const scrubbed = scrubSensitive({
+      password: 'hunter2',
+      authToken: 'abc',
+      'x-api-key': 'abc',
+      Authorization: 'abc',
+      sessionId: 'abc',
+      credit_card: '4111',
+      nested: { refresh_token: 'abc' },
+    });
+
+    expect(scrubbed).toEqual({
+      password: '[Filtered]',
+      authToken: '[Filtered]',
+      'x-api-key': '[Filtered]',
+      Authorization: '[Filtered]',
+      sessionId: '[Filtered]',
+      credit_card: '[Filtered]',
+      nested: { refresh_token: '[Filtered]' },
+    });
+  });
+
+  it('keeps keys that only contain a sensitive word', () => {
+    const values = { author: 'Ada', discard: true, sessionStorageSupported: true, tokenizer: 'words' };
+    expect(scrubSensitive(values)).toEqual(values);
+  });
+
+  it('redacts emails, credentials and sensitive query params in strings', () => {
+    expect(scrubSensitive('Bearer abc.def for ada@example.com')).toBe('Bearer [Filtered] for [email]');
+    expect(scrubSensitive('/callback?token=abc&page=2')).toBe('/callback?token=[Filtered]&page=2');
+  });
+
+  it('applies extra keys and patterns', () => {
+    expect(scrubSensitive({ phone: '555', userPin: '1234', ok: 1 }, ['phone', /pin$/i])).toEqual({
+      phone: '[Filtered]',
+      userPin: '[Filtered]',
+      ok: 1,
+    });
+  });
+
+  it('reduces errors and class instances and cuts cycles', () => {
+    const cyclic: Record<string, unknown> = { name: 'root' };
+    cyclic.self = cyclic;
+
+    const scrubbed = scrubSensitive({ error: new Error('failed'), date: new Date(0), cyclic }) as Record<string, any>;
+
+    expect(scrubbed.error).toMatchObject({ name: 'Error', message: 'failed' });
+    expect(scrubbed.date).toBe('[Date]');
+    expect(scrubbed.cyclic.self).toBe('[Circular]');
+  });
+});
+
+describe('fingerprintError', () => {
+  it('groups messages that differ only in numbers and IDs', () => {
+    expect(fingerprintError('HTTP_ERROR', 'item 12 not found')).toBe(fingerprintError('HTTP_ERROR', 'item 13 not found'));
+    expect(fingerprintError('HTTP_ERROR', 'item 12 not found')).not.toBe(fingerprintError('OTHER', 'item 12 not found'));
+  });
+});
+
+describe('ErrorReporter', () => {
+  it('skips cancellations, retry attempts and validation errors by default', () => {
+    const { reporter } = createReporter();
+
+    expect(reporter.capture(new APIError('Aborted', 'REQUEST_ABORTED'))).toBeNull();
+    expect(reporter.capture(new APIError('Retrying', 'RETRY_ATTEMPT'))).toBeNull();
+    expect(reporter.capture(new ValidationError())).toBeNull();
+    expect(reporter.capture(new APIError('Broken', 'HTTP_ERROR'))).not.toBeNull();
+    reporter.detach();
+  });
+
+  it('reports responses that do not match their schema', () => {
+    const { reporter } = createReporter();
+
+    const report = reporter.capture(new SchemaError('Response from GET /items does not match its schema: id'));
+
+    expect(report).toMatchObject({ code: 'SCHEMA_MISMATCH', name: 'SchemaError' });
+    reporter.detach();
+  });
+
+  it('takes its own list of ignored codes', () => {
+    const { reporter } = createReporter({ ignoreCodes: ['HTTP_ERROR'] });
+
+    expect(reporter.capture(new APIError('Aborted', 'REQUEST_ABORTED'))).not.toBeNull();
+    expect(reporter.capture(new APIError('Broken', 'HTTP_ERROR'))).toBeNull();
+    reporter.detach();
+  });
+
+  it('batches repeats of one error into a single counted report', async () => {
+    const { reporter, batches } = createReporter();
+
+    reporter.capture(new APIError('item 1 not found', 'NOT_FOUND'));
+    reporter.capture(new APIError('item 2 not found', 'NOT_FOUND'));
+    await reporter.flush();
+
+    expect(batches).toHaveLength(1);
+    expect(batches[0].reports).toHaveLength(1);
+    expect(batches[0].reports[0].count).toBe(2);
+    reporter.detach();
+  });
+
+  it('scrubs reports before they are queued', () => {
+    const { reporter } = createReporter();
+
+    const report = reporter.capture(new APIError('Failed for ada@example.com', 'HTTP_ERROR', { token: 'abc', id: 1 }));
+
+    expect(report?.message).toBe('Failed for [email]');
+    expect(report?.details).toEqual({ token: '[Filtered]', id: 1 });
+    reporter.detach();
+  });
+
+  it('reports what ErrorHandler handles once attached', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const { reporter, batches } = createReporter();
+    const detach = reporter.attach();
+
+    ErrorHandler.handle(new APIError('Broken', 'HTTP_ERROR'));
+    ErrorHandler.handle(new APIError('Aborted', 'REQUEST_ABORTED'));
+    await reporter.flush();
+    detach();
+
+    expect(batches[0].reports.map(report => report.code)).toEqual(['HTTP_ERROR']);
+  });
+
+  it('decides sampling once per fingerprint', () => {
+    const random = vi.spyOn(Math, 'random').mockReturnValue(0.9);
+    const { reporter } = createReporter({ sampleRate: 0.5 });
+
+    expect(reporter.capture(new APIError('Sampled out', 'HTTP_ERROR'))).toBeNull();
+    random.mockReturnValue(0.1);
+    expect(reporter.capture(new APIError('Sampled out', 'HTTP_ERROR'))).toBeNull();
+    expect(reporter.capture(new APIError('Sampled in', 'HTTP_ERROR'))).not.toBeNull();
+    reporter.detach();
+  });
+
+  it('attaches breadcrumbs for route changes, fetches and clicks', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(null, { status: 404 })));
+    const { reporter } = createReporter();
+    const detach = reporter.attach();
+    const button = document.createElement('button');
+    button.textContent = 'Save';
+    document.body.append(button);
+
+    try {
+      history.pushState({}, '', '/items?page=2');
+      await fetch('/api/items?token=abc');
+      button.click();
+      const report = reporter.capture(new APIError('Broken', 'HTTP_ERROR'));
+
+      expect(report?.breadcrumbs.map(({ category, message }) => ({ category, message }))).toEqual([
+        { category: 'navigation', message: '/ → /items?page=2' },
+        { category: 'fetch', message: 'GET /api/items?token=[Filtered] 404' },
+        { category: 'click', message: 'button "Save"' },
+      ]);
+    } finally {
+      detach();
+      button.remove();
+      history.replaceState({}, '', '/');
+    }
+  });
+
+  it('flushes with navigator.sendBeacon on pagehide', async () => {
+    const sendBeacon = vi.fn<(url: string, body: Blob) => boolean>(() => true);
+    vi.stubGlobal('navigator', Object.assign(Object.create(navigator), { sendBeacon }));
+    const { reporter, batches } = createReporter({ release: '1.2.3' });
+    const detach = reporter.attach();
+
+    reporter.capture(new APIError('Broken', 'HTTP_ERROR'));
+    window.dispatchEvent(new Event('pagehide'));
+    detach();
+
+    expect(batches).toHaveLength(0);
+    expect(sendBeacon).toHaveBeenCalledTimes(1);
+    const [url, body] = sendBeacon.mock.calls[0];
+    const batch: ErrorReportBatch = JSON.parse(await readBlob(body));
+    expect(url).toBe('/__errors');
+    expect(body.type).toBe('application/json');
+    expect(batch).toMatchObject({ release: '1.2.3', reports: [{ code: 'HTTP_ERROR', message: 'Broken' }] });
+  });
+});
+
+describe('ErrorReporter with an HTTP collector', () => {
+  it('POSTs batches as JSON', async () => {
+    const collector = await startCollector();
+    const reporter = new ErrorReporter({ endpoint: collector.endpoint, environment: 'test' });
+
+    try {
+      reporter.capture(new APIError('Broken', 'HTTP_ERROR', { token: 'abc' }));
+      reporter.capture(new APIError('Broken', 'HTTP_ERROR', { token: 'abc' }));
+      reporter.capture(new APIError('Missing', 'NOT_FOUND'));
+      await reporter.flush();
+    } finally {
+      reporter.detach();
+      await collector.close();
+    }
+
+    expect(collector.received).toHaveLength(1);
+    const [{ method, headers, batch }] = collector.received;
+    expect(method).toBe('POST');
+    expect(headers['content-type']).toBe('application/json');
+    expect(batch.environment).toBe('test');
+    expect(batch.reports).toEqual([
+      expect.objectContaining({ code: 'HTTP_ERROR', count: 2, details: { token: '[Filtered]' } }),
+      expect.objectContaining({ code: 'NOT_FOUND', count: 1 }),
+    ]);
+  });
+
+  it('keeps a batch the collector rejected for the next flush', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const collector = await startCollector(503, 204);
+    const reporter = new ErrorReporter({ endpoint: collector.endpoint });
+
+    try {
+      reporter.capture(new APIError('Broken', 'HTTP_ERROR'));
+      await reporter.flush();
+      await reporter.flush();
+    } finally {
+      reporter.detach();
+      await collector.close();
+    }
+
+    expect(console.warn).toHaveBeenCalledWith('Failed to send error reports:', expect.any(Error));
+    expect(collector.received.map(({ batch }) => batch.reports.map(report => report.code))).toEqual([
+      ['HTTP_ERROR'],
+      ['HTTP_ERROR'],
+    ]);
+  });
+});
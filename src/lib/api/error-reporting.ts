@@ -0,0 +1,472 @@
+// Error reporting sink with batching, dedupe, sampling and PII scrubbing
+import type {
+  Breadcrumb,
+  ErrorReport,
+  ErrorReportBatch,
+  ErrorReporterConfig,
+  SerializedError,
+} from '../types';
+import { ErrorHandler, serializeError } from '../error-handling';
+
+// Whole words of the key in snake_case: `authToken` and `x-api-key` match,
+// `author`, `discard` and `sessionStorageSupported` do not
+const SENSITIVE_KEY = /(^|_)(pass(word|wd)?|secret|token|auth(orization)?|cookies?|api_?key|credit_card|card_number|cvv|ssn|credentials?)(_|$)|^session(_id)?$/;
+const EMAIL = /[^\s@"'<>,;:]+@[^\s@"'<>,;:]+\.[a-z]{2,}/gi;
+const CREDENTIALS = /\b(Bearer|Basic)\s+[\w.~+/=-]+/gi;
+const QUERY_PARAM = /([?&])([^=&#\s]+)=([^&#\s]*)/g;
+const FILTERED = '[Filtered]';
+// Cancellations, retries that may still succeed and invalid user input
+const DEFAULT_IGNORED_CODES = ['REQUEST_ABORTED', 'RETRY_ATTEMPT', 'VALIDATION_ERROR'];
+const MAX_DEPTH = 6;
+
+/**
+ * Copy of `value` safe to send off the page: sensitive keys and query
+ * params are filtered, emails and auth headers redacted, errors reduced to
+ * name/message/stack, and cycles cut
+ */
+export function scrubSensitive(value: unknown, keys: (string | RegExp)[] = []): unknown {
+  const isSensitive = (key: string) =>
+    SENSITIVE_KEY.test(toSnakeCase(key)) ||
+    keys.some(pattern => typeof pattern === 'string' ? pattern.toLowerCase() === key.toLowerCase() : pattern.test(key));
+
+  const scrubString = (text: string) => text
+    .replace(CREDENTIALS, `$1 ${FILTERED}`)
+    .replace(EMAIL, '[email]')
+    .replace(QUERY_PARAM, (match, prefix: string, key: string) =>
+      isSensitive(decodeURIComponentSafe(key)) ? `${prefix}${key}=${FILTERED}` : match
+    );
+
+  const seen = new WeakSet<object>();
+
+  const walk = (current: unknown, depth: number): unknown => {
+    if (typeof current === 'string') return scrubString(current);
+    if (current === null || typeof current !== 'object') {
+      return typeof current === 'function' || typeof current === 'symbol' ? undefined : current;
+    }
+    if (seen.has(current)) return '[Circular]';
+    if (depth >= MAX_DEPTH) return '[Truncated]';
+    seen.add(current);
+
+    if (current instanceof Error) {
+      return {
+        name: current.name,
+        message: scrubString(current.message),
+        stack: current.stack && scrubString(current.stack),
+        cause: current.cause === undefined ? undefined : walk(current.cause, depth + 1),
+      };
+    }
+    if (Array.isArray(current)) {
+      return current.map(item => walk(item, depth + 1));
+    }
+
+    const prototype = Object.getPrototypeOf(current);
+    if (prototype !== Object.prototype && prototype !== null) {
+      return `[${current.constructor?.name ?? 'Object'}]`;
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(current)) {
+      result[key] = isSensitive(key) ? FILTERED : walk(item, depth + 1);
+    }
+    return result;
+  };
+
+  return walk(value, 0);
+}
+
+/**
+ * Groups errors that share a code, message shape and throw site. Numbers
+ * and IDs in messages are ignored so `item 12 not found` and `item 13 not
+ * found` count as one.
+ */
+export function fingerprintError(code: string, message: string, stack?: string): string {
+  const normalized = message.replace(/[0-9a-f]{8,}|\d+/gi, '#');
+  const topFrame = stack?.split('\n').find(line => line.trim().startsWith('at ') || line.includes('@'))?.trim() ?? '';
+  const source = `${code}|${normalized}|${topFrame.replace(/:\d+:\d+\)?$/, '')}`;
+
+  // djb2 is plenty for grouping; this is not a security boundary
+  let hash = 5381;
+  for (let index = 0; index < source.length; index++) {
+    hash = ((hash << 5) + hash + source.charCodeAt(index)) | 0;
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Collects errors from `ErrorHandler` and ships them to a collector
+ *
+ * Reports are batched and flushed every `flushInterval` or once
+ * `batchSize` distinct errors are queued; on `pagehide` the queue goes out
+ * with `navigator.sendBeacon` so it survives the unload. Each report
+ * carries the breadcrumbs (route changes, fetches, clicks) leading up to it.
+ *
+ *   const reporter = new ErrorReporter({ endpoint: '/__errors', sampleRate: 0.5 });
+ *   const detach = reporter.attach();
+ */
+export class ErrorReporter {
+  private static current: ErrorReporter | null = null;
+
+  private config: Required<Omit<ErrorReporterConfig, 'release' | 'environment' | 'beforeSend' | 'send'>> &
+    Pick<ErrorReporterConfig, 'release' | 'environment' | 'beforeSend' | 'send'>;
+  private queue = new Map<string, ErrorReport>();
+  private sent = new Map<string, { at: number; suppressed: number }>();
+  private sampled = new Map<string, boolean>();
+  private breadcrumbs: Breadcrumb[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private detachers: (() => void)[] = [];
+  private nativeFetch: typeof fetch | undefined;
+
+  constructor(config: ErrorReporterConfig) {
+    this.config = {
+      sampleRate: 1,
+      batchSize: 10,
+      flushInterval: 5000,
+      maxBreadcrumbs: 20,
+      dedupeWindow: 60_000,
+      scrubKeys: [],
+      ignoreCodes: DEFAULT_IGNORED_CODES,
+      ...config,
+    };
+    // Captured before attach() wraps fetch so reports never become breadcrumbs
+    this.nativeFetch = typeof fetch === 'function' ? fetch.bind(globalThis) : undefined;
+  }
+
+  /**
+   * The most recently attached reporter, if any
+   */
+  static get active(): ErrorReporter | null {
+    return this.current;
+  }
+
+  /**
+   * Subscribe to `ErrorHandler`, record breadcrumbs and flush on pagehide.
+   * Returns a function that undoes all of it.
+   */
+  attach(): () => void {
+    this.detach();
+    ErrorReporter.current = this;
+
+    this.detachers.push(ErrorHandler.addListener(error => {
+      this.capture(error);
+    }));
+
+    if (typeof window !== 'undefined') {
+      this.detachers.push(
+        this.instrumentNavigation(),
+        this.instrumentFetch(),
+        this.instrumentClicks(),
+        listen(window, 'pagehide', () => {
+          this.flush({ beacon: true });
+        })
+      );
+    }
+
+    return () => this.detach();
+  }
+
+  detach(): void {
+    this.detachers.splice(0).reverse().forEach(undo => undo());
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (ErrorReporter.current === this) {
+      ErrorReporter.current = null;
+    }
+  }
+
+  addBreadcrumb(breadcrumb: Omit<Breadcrumb, 'timestamp'> & { timestamp?: number }): void {
+    this.breadcrumbs.push({
+      ...breadcrumb,
+      message: scrubSensitive(breadcrumb.message, this.config.scrubKeys) as string,
+      data: breadcrumb.data && scrubSensitive(breadcrumb.data, this.config.scrubKeys) as Record<string, unknown>,
+      timestamp: breadcrumb.timestamp ?? Date.now(),
+    });
+    if (this.breadcrumbs.length > this.config.maxBreadcrumbs) {
+      this.breadcrumbs.splice(0, this.breadcrumbs.length - this.config.maxBreadcrumbs);
+    }
+  }
+
+  /**
+   * Queue an error for the next batch. Returns null when its code is
+   * ignored, it was sampled out, folded into a recent report, or dropped
+   * by `beforeSend`.
+   */
+  capture(error: unknown, context?: Record<string, unknown>): ErrorReport | null {
+    const { code, name, message, stack, details, cause } = describeError(error);
+    if (this.config.ignoreCodes.includes(code)) {
+      return null;
+    }
+
+    const fingerprint = fingerprintError(code, message, stack);
+    const now = Date.now();
+
+    if (!this.isSampled(fingerprint)) {
+      return null;
+    }
+
+    const queued = this.queue.get(fingerprint);
+    if (queued) {
+      queued.count++;
+      queued.lastSeen = now;
+      return queued;
+    }
+
+    const recent = this.sent.get(fingerprint);
+    if (recent && now - recent.at < this.config.dedupeWindow) {
+      recent.suppressed++;
+      return null;
+    }
+
+    const scrub = (value: unknown) => scrubSensitive(value, this.config.scrubKeys);
+    let report: ErrorReport | null = {
+      fingerprint,
+      code,
+      name,
+      message: scrub(message) as string,
+      stack: stack && scrub(stack) as string,
+      details: details === undefined ? undefined : scrub(details),
+      cause: cause && scrub(cause) as SerializedError,
+      context: context && scrub(context) as Record<string, unknown>,
+      url: typeof location !== 'undefined' ? scrub(location.href) as string : undefined,
+      count: 1 + (recent?.suppressed ?? 0),
+      firstSeen: now,
+      lastSeen: now,
+      breadcrumbs: [...this.breadcrumbs],
+    };
+
+    if (this.config.beforeSend) {
+      report = this.config.beforeSend(report);
+      if (!report) return null;
+    }
+
+    this.sent.delete(fingerprint);
+    this.queue.set(fingerprint, report);
+
+    if (this.queue.size >= this.config.batchSize) {
+      this.flush();
+    } else {
+      this.timer ??= setTimeout(() => {
+        this.flush();
+      }, this.config.flushInterval);
+    }
+
+    return report;
+  }
+
+  /**
+   * Send everything queued. `beacon` uses `navigator.sendBeacon`, which
+   * outlives the page but cannot report failures.
+   */
+  async flush({ beacon = false }: { beacon?: boolean } = {}): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.queue.size === 0) return;
+
+    const reports = [...this.queue.values()];
+    const now = Date.now();
+    this.queue.clear();
+    this.sent.forEach((entry, fingerprint) => {
+      if (now - entry.at >= this.config.dedupeWindow) {
+        this.sent.delete(fingerprint);
+      }
+    });
+    reports.forEach(report => this.sent.set(report.fingerprint, { at: now, suppressed: 0 }));
+
+    const batch: ErrorReportBatch = {
+      reports,
+      release: this.config.release,
+      environment: this.config.environment,
+      sentAt: now,
+    };
+
+    try {
+      if (beacon && this.sendBeacon(batch)) return;
+
+      if (this.config.send) {
+        await this.config.send(batch);
+      } else if (this.nativeFetch) {
+        const response = await this.nativeFetch(this.config.endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(batch),
+          keepalive: true,
+        });
+        if (!response.ok) {
+          throw new Error(`Error collector responded with ${response.status}`);
+        }
+      }
+    } catch (error) {
+      // Going through ErrorHandler here would report the failure to report
+      console.warn('Failed to send error reports:', error);
+      // Kept for the next flush rather than retried right away
+      reports.forEach((report) => {
+        this.sent.delete(report.fingerprint);
+        if (!this.queue.has(report.fingerprint)) {
+          this.queue.set(report.fingerprint, report);
+        }
+      });
+    }
+  }
+
+  private isSampled(fingerprint: string): boolean {
+    let sampled = this.sampled.get(fingerprint);
+    if (sampled === undefined) {
+      // Decided once per fingerprint so counts stay meaningful
+      sampled = Math.random() < this.config.sampleRate;
+      this.sampled.set(fingerprint, sampled);
+    }
+    return sampled;
+  }
+
+  private sendBeacon(batch: ErrorReportBatch): boolean {
+    if (typeof navigator === 'undefined' || typeof navigator.sendBeacon !== 'function') {
+      return false;
+    }
+    const body = new Blob([JSON.stringify(batch)], { type: 'application/json' });
+    return navigator.sendBeacon(this.config.endpoint, body);
+  }
+
+  private instrumentNavigation(): () => void {
+    let previous = location.pathname + location.search;
+    const record = () => {
+      const next = location.pathname + location.search;
+      if (next === previous) return;
+      this.addBreadcrumb({ category: 'navigation', message: `${previous} → ${next}`, data: { from: previous, to: next } });
+      previous = next;
+    };
+
+    const { pushState, replaceState } = history;
+    history.pushState = function (...args: Parameters<History['pushState']>) {
+      pushState.apply(this, args);
+      record();
+    };
+    history.replaceState = function (...args: Parameters<History['replaceState']>) {
+      replaceState.apply(this, args);
+      record();
+    };
+    const removePopState = listen(window, 'popstate', record);
+
+    return () => {
+      history.pushState = pushState;
+      history.replaceState = replaceState;
+      removePopState();
+    };
+  }
+
+  private instrumentFetch(): () => void {
+    const original = window.fetch;
+    if (typeof original !== 'function') return () => undefined;
+
+    const instrumented: typeof fetch = async (input, init) => {
+      const request = input instanceof Request ? input : null;
+      const url = request?.url ?? String(input);
+      const method = (init?.method ?? request?.method ?? 'GET').toUpperCase();
+      const started = performance.now();
+
+      try {
+        const response = await original.call(window, input, init);
+        this.addBreadcrumb({
+          category: 'fetch',
+          message: `${method} ${url} ${response.status}`,
+          data: { method, url, status: response.status, duration: Math.round(performance.now() - started) },
+        });
+        return response;
+      } catch (error) {
+        this.addBreadcrumb({
+          category: 'fetch',
+          message: `${method} ${url} failed`,
+          data: { method, url, error: error instanceof Error ? error.name : String(error) },
+        });
+        throw error;
+      }
+    };
+
+    window.fetch = instrumented;
+    return () => {
+      // Leave fetch alone if something else wrapped it after us
+      if (window.fetch === instrumented) {
+        window.fetch = original;
+      }
+    };
+  }
+
+  private instrumentClicks(): () => void {
+    return listen(document, 'click', (event) => {
+      if (event.target instanceof Element) {
+        const target = describeElement(event.target);
+        this.addBreadcrumb({ category: 'click', message: target, data: { target } });
+      }
+    }, true);
+  }
+}
+
+function describeError(error: unknown): {
+  code: string;
+  name: string;
+  message: string;
+  stack?: string;
+  details?: unknown;
+  cause?: SerializedError;
+} {
+  if (error instanceof Error) {
+    const { code, details } = error as Error & { code?: unknown; details?: unknown };
+
+    // Converted errors keep the original as `cause`, which has the useful stack
+    let origin: Error = error;
+    while (origin.cause instanceof Error) {
+      origin = origin.cause;
+    }
+
+    return {
+      code: typeof code === 'string' ? code : 'UNKNOWN_ERROR',
+      name: error.name,
+      message: error.message,
+      stack: origin.stack ?? error.stack,
+      details,
+      cause: error.cause === undefined ? undefined : serializeError(error.cause),
+    };
+  }
+
+  return { code: 'UNKNOWN_ERROR', name: 'Error', message: String(error) };
+}
+
+// Tag, id, a couple of classes and an accessible name; never input values
+function describeElement(element: Element): string {
+  const target = element.closest('button, a, [role="button"], input, select, textarea, label, summary') ?? element;
+  let description = target.tagName.toLowerCase();
+
+  if (target.id) description += `#${target.id}`;
+  description += [...target.classList].slice(0, 2).map(name => `.${name}`).join('');
+
+  const name = target.getAttribute('aria-label') ??
+    (target.matches('button, a, summary') ? target.textContent?.trim().slice(0, 40) : undefined);
+  return name ? `${description} "${name}"` : description;
+}
+
+function listen<K extends keyof WindowEventMap>(
+  target: Window | Document,
+  type: K,
+  handler: (event: WindowEventMap[K]) => void,
+  capture = false
+): () => void {
+  target.addEventListener(type, handler as EventListener, capture);
+  return () => target.removeEventListener(type, handler as EventListener, capture);
+}
+
+function toSnakeCase(key: string): string {
+  return key
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/[^a-zA-Z0-9]+/g, '_')
+    .toLowerCase();
+}
+
+function decodeURIComponentSafe(text: string): string {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
+  }
+}
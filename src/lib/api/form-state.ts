@@ -0,0 +1,67 @@
+// Helpers for mapping submissions and server replies onto FormState
+import type { ApiError, FieldErrors, FormValues } from '../types';
+
+/**
+ * Text values of a submission; files are left out since inputs cannot be
+ * repopulated with them. Repeated names become arrays.
+ */
+export function formValues(formData: FormData): FormValues {
+  const values: FormValues = {};
+  for (const name of new Set(formData.keys())) {
+    const entries = formData.getAll(name).filter((value): value is string => typeof value === 'string');
+    if (entries.length > 0) {
+      values[name] = entries.length > 1 ? entries : entries[0];
+    }
+  }
+  return values;
+}
+
+/**
+ * Field errors from a failed response body. Understands the common shapes:
+ *
+ *   { errors: { email: 'Taken' } }
+ *   { errors: { email: ['Taken', 'Too long'] } }
+ *   { errors: [{ field: 'email', message: 'Taken' }] }
+ *   { fieldErrors: { ... } }
+ */
+export function fieldErrorsFrom(error: ApiError | undefined): FieldErrors | undefined {
+  // Client-side validation attaches errors as `fields`; server errors carry the body
+  const body = error?.details?.body;
+  const raw = error?.details?.fields
+    ?? (body && typeof body === 'object' ? body.fieldErrors ?? body.errors : undefined);
+
+  const fieldErrors: FieldErrors = {};
+
+  if (Array.isArray(raw)) {
+    raw.forEach((entry) => {
+      const field = entry?.field ?? entry?.path ?? entry?.name;
+      if (typeof field === 'string' && typeof entry.message === 'string') {
+        (fieldErrors[field] ??= []).push(entry.message);
+      }
+    });
+  } else if (raw && typeof raw === 'object') {
+    Object.entries(raw).forEach(([field, messages]) => {
+      const list = (Array.isArray(messages) ? messages : [messages]).filter(
+        (message): message is string => typeof message === 'string'
+      );
+      if (list.length > 0) {
+        fieldErrors[field] = list;
+      }
+    });
+  }
+
+  return Object.keys(fieldErrors).length > 0 ? fieldErrors : undefined;
+}
+
+/**
+ * `warnings` from a response body, as a list of messages
+ */
+export function warningsFrom(body: unknown): string[] | undefined {
+  if (!body || typeof body !== 'object' || !('warnings' in body)) return undefined;
+
+  const { warnings } = body;
+  const list = (Array.isArray(warnings) ? warnings : [warnings]).filter(
+    (warning): warning is string => typeof warning === 'string'
+  );
+  return list.length > 0 ? list : undefined;
+}
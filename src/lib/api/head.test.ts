@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { HeadAPI } from './head';
+import { ShareAPI } from './web-platform';
+
+beforeEach(() => {
+  // jsdom has no CSS namespace; enough of CSS.escape for meta names
+  vi.stubGlobal('CSS', { escape: (value: string) => value.replace(/["\\]/g, '\\$&') });
+});
+
+afterEach(() => {
+  document.head.innerHTML = '';
+  document.title = '';
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('HeadAPI.tags', () => {
+  it('builds title, description, Open Graph and canonical tags', () => {
+    const tags = HeadAPI.tags(
+      { title: 'Docs', description: 'Read me', image: '/og.png', url: '/docs' },
+      { siteUrl: 'https://example.com/app' }
+    );
+
+    expect(tags.meta).toEqual([
+      { title: 'Docs' },
+      { property: 'og:title', content: 'Docs' },
+      { name: 'description', content: 'Read me' },
+      { property: 'og:description', content: 'Read me' },
+      { property: 'og:image', content: 'https://example.com/og.png' },
+      { name: 'twitter:card', content: 'summary_large_image' },
+      { property: 'og:url', content: 'https://example.com/docs' },
+    ]);
+    expect(tags.links).toEqual([{ rel: 'canonical', href: 'https://example.com/docs' }]);
+  });
+
+  it('leaves out fields that are not set', () => {
+    expect(HeadAPI.tags({ title: 'Only' })).toEqual({
+      meta: [{ title: 'Only' }, { property: 'og:title', content: 'Only' }],
+      links: [],
+    });
+  });
+});
+
+describe('HeadAPI.merge', () => {
+  it('lets later levels replace tags with the same name, property or rel', () => {
+    const root = HeadAPI.tags({ title: 'Site', description: 'Default', url: '/' });
+    const page = HeadAPI.tags({ title: 'Page', url: '/page' });
+
+    const merged = HeadAPI.merge([
+      { ...root, meta: [...root.meta, { property: 'og:site_name', content: 'Site' }] },
+      page,
+      {},
+    ]);
+
+    expect(merged.meta).toEqual(expect.arrayContaining([
+      { title: 'Page' },
+      { name: 'description', content: 'Default' },
+      { property: 'og:site_name', content: 'Site' },
+      { property: 'og:url', content: '/page' },
+    ]));
+    expect(merged.meta.filter(tag => tag.title !== undefined)).toHaveLength(1);
+    expect(merged.links).toEqual([{ rel: 'canonical', href: '/page' }]);
+  });
+});
+
+describe('HeadAPI.render', () => {
+  it('escapes values and marks managed tags', () => {
+    const html = HeadAPI.render(HeadAPI.tags({ title: 'Tom & "Jerry" <3', url: '/a?b=1&c=2' }));
+
+    expect(html).toContain('<title>Tom &amp; &quot;Jerry&quot; &lt;3</title>');
+    expect(html).toContain('<meta property="og:title" content="Tom &amp; &quot;Jerry&quot; &lt;3" data-head />');
+    expect(html).toContain('<link rel="canonical" href="/a?b=1&amp;c=2" data-head />');
+  });
+});
+
+describe('HeadAPI.apply', () => {
+  it('updates prerendered tags in place and removes stale ones', () => {
+    document.head.innerHTML = [
+      '<meta charset="utf-8">',
+      HeadAPI.render(HeadAPI.tags({ title: 'Home', description: 'Welcome', url: '/' })),
+    ].join('');
+    const description = document.head.querySelector('meta[name="description"]');
+
+    HeadAPI.apply(HeadAPI.tags({ title: 'About', description: 'Who we are' }));
+
+    expect(document.title).toBe('About');
+    expect(document.head.querySelector('meta[name="description"]')).toBe(description);
+    expect(description?.getAttribute('content')).toBe('Who we are');
+    expect(document.head.querySelector('link[rel="canonical"]')).toBeNull();
+    expect(document.head.querySelector('meta[charset]')).not.toBeNull();
+  });
+
+  it('reads back what it applied', () => {
+    HeadAPI.apply(HeadAPI.tags({ title: 'About', description: 'Who we are', url: 'https://example.com/about' }));
+
+    expect(HeadAPI.current()).toEqual({
+      title: 'About',
+      description: 'Who we are',
+      image: undefined,
+      url: 'https://example.com/about',
+    });
+  });
+});
+
+describe('ShareAPI.share', () => {
+  it('fills missing fields from the page head', async () => {
+    const share = vi.fn(async () => undefined);
+    Object.defineProperty(navigator, 'share', { value: share, configurable: true });
+    HeadAPI.apply(HeadAPI.tags({ title: 'About', description: 'Who we are', url: 'https://example.com/about' }));
+
+    try {
+      await ShareAPI.share({ text: 'Look at this' });
+    } finally {
+      Reflect.deleteProperty(navigator, 'share');
+    }
+
+    expect(share).toHaveBeenCalledWith({ title: 'About', text: 'Look at this', url: 'https://example.com/about' });
+  });
+});
@@ -0,0 +1,166 @@
+// Document head management: titles, descriptions, Open Graph and canonical URLs
+import type { HeadLinkTag, HeadMetaTag, HeadTags, PageHead } from '../types';
+
+// Marks tags owned by HeadAPI, so apply() never touches hand-written ones
+const MANAGED_ATTRIBUTE = 'data-head';
+
+/**
+ * Page metadata as <head> tags. Tag lists from several levels (e.g. root
+ * and page routes) are merged with `merge()`, later levels winning, then
+ * either written into prerendered HTML with `render()` or synced into the
+ * live document with `apply()`.
+ */
+export class HeadAPI {
+  /**
+   * Title, description, Open Graph, Twitter card and canonical tags for a page.
+   * Only fields that are set produce tags, so partial heads merge cleanly.
+   */
+  static tags(head: PageHead, options: { siteUrl?: string } = {}): HeadTags {
+    const meta: HeadMetaTag[] = [];
+    const links: HeadLinkTag[] = [];
+    const absolute = (url: string) => resolveUrl(url, options.siteUrl);
+
+    if (head.title) {
+      meta.push({ title: head.title }, { property: 'og:title', content: head.title });
+    }
+    if (head.description) {
+      meta.push(
+        { name: 'description', content: head.description },
+        { property: 'og:description', content: head.description }
+      );
+    }
+    if (head.image) {
+      meta.push(
+        { property: 'og:image', content: absolute(head.image) },
+        { name: 'twitter:card', content: 'summary_large_image' }
+      );
+    }
+    if (head.url) {
+      meta.push({ property: 'og:url', content: absolute(head.url) });
+      links.push({ rel: 'canonical', href: absolute(head.url) });
+    }
+
+    return { meta, links };
+  }
+
+  static merge(levels: Partial<HeadTags>[]): HeadTags {
+    const meta = new Map<string, HeadMetaTag>();
+    const links = new Map<string, HeadLinkTag>();
+
+    levels.forEach((level) => {
+      level.meta?.forEach((tag) => {
+        if (tag) meta.set(metaKey(tag), tag);
+      });
+      level.links?.forEach((link) => {
+        if (link) links.set(linkKey(link), link);
+      });
+    });
+
+    return { meta: [...meta.values()], links: [...links.values()] };
+  }
+
+  /**
+   * HTML for the tags, for prerendering. Marked so `apply()` can take them
+   * over after hydration.
+   */
+  static render(tags: HeadTags): string {
+    const meta = tags.meta.map(tag =>
+      tag.title !== undefined
+        ? `<title>${escapeHtml(tag.title)}</title>`
+        : `<meta ${renderAttributes(tag)} ${MANAGED_ATTRIBUTE} />`
+    );
+    const links = tags.links.map(link => `<link ${renderAttributes(link)} ${MANAGED_ATTRIBUTE} />`);
+    return [...meta, ...links].join('\n  ');
+  }
+
+  /**
+   * Make document.head match `tags`: update or add each tag and remove
+   * managed tags that are no longer wanted
+   */
+  static apply(tags: HeadTags): void {
+    if (typeof document === 'undefined') return;
+
+    const wanted = new Set<Element>();
+
+    tags.meta.forEach((tag) => {
+      if (tag.title !== undefined) {
+        document.title = tag.title;
+        return;
+      }
+      const selector = tag.name !== undefined ? `meta[name="${CSS.escape(tag.name)}"]`
+        : tag.property !== undefined ? `meta[property="${CSS.escape(tag.property)}"]`
+        : null;
+      wanted.add(upsert('meta', selector, tag));
+    });
+
+    tags.links.forEach((link) => {
+      const selector = link.rel === 'canonical' ? 'link[rel="canonical"]' : null;
+      wanted.add(upsert('link', selector, link));
+    });
+
+    document.head.querySelectorAll(`[${MANAGED_ATTRIBUTE}]`).forEach((element) => {
+      if (!wanted.has(element)) element.remove();
+    });
+  }
+
+  /**
+   * Metadata of the page currently shown, read back from document.head
+   */
+  static current(): PageHead {
+    if (typeof document === 'undefined') return {};
+
+    const content = (selector: string) =>
+      document.head.querySelector(selector)?.getAttribute('content') ?? undefined;
+
+    return {
+      title: content('meta[property="og:title"]') ?? (document.title || undefined),
+      description: content('meta[name="description"]') ?? content('meta[property="og:description"]'),
+      image: content('meta[property="og:image"]'),
+      url: document.head.querySelector('link[rel="canonical"]')?.getAttribute('href')
+        ?? content('meta[property="og:url"]')
+        ?? location.href,
+    };
+  }
+}
+
+function metaKey(tag: HeadMetaTag): string {
+  if (tag.title !== undefined) return 'title';
+  if (tag.name !== undefined) return `name:${tag.name}`;
+  if (tag.property !== undefined) return `property:${tag.property}`;
+  return JSON.stringify(tag);
+}
+
+// Only one canonical link per page; other links are kept side by side
+function linkKey(link: HeadLinkTag): string {
+  return link.rel === 'canonical' ? 'canonical' : JSON.stringify(link);
+}
+
+function resolveUrl(url: string, siteUrl?: string): string {
+  if (!siteUrl) return url;
+  return new URL(url, siteUrl.endsWith('/') ? siteUrl : `${siteUrl}/`).href;
+}
+
+function upsert(tagName: 'meta' | 'link', selector: string | null, attributes: Record<string, string | undefined>): Element {
+  const element = (selector && document.head.querySelector(selector)) || document.createElement(tagName);
+  Object.entries(attributes).forEach(([name, value]) => {
+    if (value !== undefined) element.setAttribute(name, value);
+  });
+  element.setAttribute(MANAGED_ATTRIBUTE, '');
+  if (!element.isConnected) document.head.append(element);
+  return element;
+}
+
+function renderAttributes(attributes: Record<string, string | undefined>): string {
+  return Object.entries(attributes)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => `${name}="${escapeHtml(value!)}"`)
+    .join(' ');
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
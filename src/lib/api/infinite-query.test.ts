@@ -0,0 +1,82 @@
+import { describe, expect, it, vi } from 'vitest';
+import { DataManagementAPI } from './data-management';
+import {
+  cursorPagination,
+  fetchNextInfinitePage,
+  infiniteQueryKey,
+  loadInfiniteQuery,
+  offsetPagination,
+} from './infinite-query';
+import { createMockTransport, type MockHandler } from './transport';
+
+interface CursorPage {
+  items: number[];
+  next: string | null;
+}
+
+const cursorPages: Record<string, CursorPage> = {
+  start: { items: [1, 2], next: 'b' },
+  b: { items: [3, 4], next: 'c' },
+  c: { items: [5], next: null },
+};
+
+// Serves cursorPages by the `cursor` query param, recording each request URL
+function cursorClient() {
+  const handler = vi.fn<MockHandler>(({ url }) => {
+    const cursor = new URL(url, 'http://localhost').searchParams.get('cursor') ?? 'start';
+    return { body: cursorPages[cursor] };
+  });
+  const client = new DataManagementAPI({ transport: createMockTransport({ 'GET /api/items': handler }) });
+  return { client, handler };
+}
+
+const pagination = cursorPagination<CursorPage>(page => page.next);
+
+describe('pagination strategies', () => {
+  it('reads the next cursor from the last page', () => {
+    expect(pagination.initialPageParam).toBeNull();
+    expect(pagination.getNextPageParam(cursorPages.start, [cursorPages.start])).toBe('b');
+    expect(pagination.getNextPageParam(cursorPages.c, [])).toBeUndefined();
+    expect(cursorPagination<CursorPage>(page => page.next, 'after').toParams('b')).toEqual({ after: 'b' });
+  });
+
+  it('sums loaded items into the next offset and stops at a short page', () => {
+    const offset = offsetPagination<number[]>({ limit: 2, getItems: page => page });
+
+    expect(offset.getNextPageParam([3, 4], [[1, 2], [3, 4]])).toBe(4);
+    expect(offset.getNextPageParam([5], [[1, 2], [3, 4], [5]])).toBeUndefined();
+    expect(offset.toParams(4)).toEqual({ offset: 4, limit: 2 });
+  });
+});
+
+describe('loadInfiniteQuery and fetchNextInfinitePage', () => {
+  it('tracks pages and their params, and stops after the last page', async () => {
+    const { client, handler } = cursorClient();
+
+    const first = await loadInfiniteQuery(client, '/items', { pagination });
+    expect(first).toEqual({ pages: [cursorPages.start], pageParams: [null] });
+
+    await fetchNextInfinitePage(client, '/items', { pagination });
+    const last = await fetchNextInfinitePage(client, '/items', { pagination });
+    expect(last.pageParams).toEqual([null, 'b', 'c']);
+    expect(last.pages.flatMap(page => page.items)).toEqual([1, 2, 3, 4, 5]);
+    expect(client.queryCache.getState(infiniteQueryKey('/items'))?.data).toEqual(last);
+
+    // No next cursor: nothing is requested
+    expect(await fetchNextInfinitePage(client, '/items', { pagination })).toBe(last);
+    expect(handler).toHaveBeenCalledTimes(3);
+  });
+
+  it('reloads as many pages as were loaded when refetching', async () => {
+    const { client, handler } = cursorClient();
+
+    await loadInfiniteQuery(client, '/items', { pagination });
+    await fetchNextInfinitePage(client, '/items', { pagination });
+    handler.mockClear();
+
+    const reloaded = await loadInfiniteQuery(client, '/items', { pagination, force: true });
+
+    expect(reloaded.pageParams).toEqual([null, 'b']);
+    expect(handler.mock.calls.map(([request]) => request.url)).toEqual(['/api/items', '/api/items?cursor=b']);
+  });
+});
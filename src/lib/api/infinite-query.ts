@@ -0,0 +1,147 @@
+// Paginated and infinite queries on top of the query cache
+import type { QueryParams } from '../types';
+import type { DataManagementAPI } from './data-management';
+import { QueryCache } from './query-cache';
+
+export interface InfinitePages<TPage, TParam = unknown> {
+  pages: TPage[];
+  pageParams: TParam[];
+}
+
+export interface PaginationStrategy<TPage, TParam> {
+  initialPageParam: TParam;
+  // Return null/undefined when there are no more pages
+  getNextPageParam: (lastPage: TPage, allPages: TPage[]) => TParam | null | undefined;
+  toParams: (pageParam: TParam) => QueryParams;
+}
+
+export interface InfiniteQueryOptions<TPage, TParam> {
+  pagination: PaginationStrategy<TPage, TParam>;
+  params?: QueryParams;
+  tags?: string[];
+}
+
+/**
+ * Cursor pagination: the server returns the cursor for the next page
+ */
+export function cursorPagination<TPage>(
+  getNextCursor: (page: TPage) => string | null | undefined,
+  cursorParam = 'cursor'
+): PaginationStrategy<TPage, string | null> {
+  return {
+    initialPageParam: null,
+    getNextPageParam: (lastPage) => getNextCursor(lastPage) ?? undefined,
+    toParams: (cursor) => ({ [cursorParam]: cursor }),
+  };
+}
+
+/**
+ * Offset pagination: a short page means the end of the list
+ */
+export function offsetPagination<TPage>(options: {
+  limit: number;
+  getItems: (page: TPage) => unknown[];
+  offsetParam?: string;
+  limitParam?: string;
+}): PaginationStrategy<TPage, number> {
+  const { limit, getItems, offsetParam = 'offset', limitParam = 'limit' } = options;
+
+  return {
+    initialPageParam: 0,
+    getNextPageParam: (lastPage, allPages) => {
+      if (getItems(lastPage).length < limit) return undefined;
+      return allPages.reduce((offset, page) => offset + getItems(page).length, 0);
+    },
+    toParams: (offset) => ({ [offsetParam]: offset, [limitParam]: limit }),
+  };
+}
+
+export function infiniteQueryKey(endpoint: string, params?: QueryParams): string {
+  return `infinite:${QueryCache.key(endpoint, params)}`;
+}
+
+export function getNextPageParam<TPage, TParam>(
+  data: InfinitePages<TPage, TParam> | undefined,
+  pagination: PaginationStrategy<TPage, TParam>
+): TParam | null | undefined {
+  if (!data || data.pages.length === 0) {
+    return pagination.initialPageParam;
+  }
+  return pagination.getNextPageParam(data.pages[data.pages.length - 1], data.pages);
+}
+
+/**
+ * Load (or reload) the first pages of an infinite query through the cache.
+ * Refetches reload as many pages as were already loaded.
+ */
+export function loadInfiniteQuery<TPage, TParam>(
+  client: DataManagementAPI,
+  endpoint: string,
+  options: InfiniteQueryOptions<TPage, TParam> & { staleTime?: number; force?: boolean }
+): Promise<InfinitePages<TPage, TParam>> {
+  const key = infiniteQueryKey(endpoint, options.params);
+
+  return client.queryCache.fetch(key, async () => {
+    const loaded = client.queryCache.getState<InfinitePages<TPage, TParam>>(key)?.data;
+    const pageCount = Math.max(loaded?.pages.length ?? 0, 1);
+
+    let data: InfinitePages<TPage, TParam> = { pages: [], pageParams: [] };
+    for (let index = 0; index < pageCount; index++) {
+      const pageParam = getNextPageParam(data, options.pagination);
+      if (pageParam == null && index > 0) break;
+
+      data = await appendPage(client, endpoint, data, pageParam as TParam, options);
+    }
+    return data;
+  }, {
+    staleTime: options.staleTime,
+    tags: [endpoint, ...(options.tags ?? [])],
+    force: options.force,
+  });
+}
+
+/**
+ * Fetch the page after the last loaded one and append it in the cache
+ */
+export async function fetchNextInfinitePage<TPage, TParam>(
+  client: DataManagementAPI,
+  endpoint: string,
+  options: InfiniteQueryOptions<TPage, TParam>
+): Promise<InfinitePages<TPage, TParam>> {
+  const key = infiniteQueryKey(endpoint, options.params);
+  const current = client.queryCache.getState<InfinitePages<TPage, TParam>>(key)?.data;
+
+  if (!current) {
+    return loadInfiniteQuery(client, endpoint, options);
+  }
+
+  const pageParam = getNextPageParam(current, options.pagination);
+  if (pageParam == null) {
+    return current;
+  }
+
+  const next = await appendPage(client, endpoint, current, pageParam, options);
+  client.queryCache.set(key, next);
+  return next;
+}
+
+async function appendPage<TPage, TParam>(
+  client: DataManagementAPI,
+  endpoint: string,
+  data: InfinitePages<TPage, TParam>,
+  pageParam: TParam,
+  options: InfiniteQueryOptions<TPage, TParam>
+): Promise<InfinitePages<TPage, TParam>> {
+  const result = await client.fetchData<TPage>(endpoint, {
+    params: { ...options.params, ...options.pagination.toParams(pageParam) },
+  });
+
+  if (!result.success) {
+    throw result.error;
+  }
+
+  return {
+    pages: [...data.pages, result.data],
+    pageParams: [...data.pageParams, pageParam],
+  };
+}
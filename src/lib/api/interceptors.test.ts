@@ -0,0 +1,159 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { TransportRequest } from '../types';
+import { HTTPError, PermissionError, ValidationError } from '../error-handling';
+import { DataManagementAPI, errorFromResponse } from './data-management';
+import { refreshTokenOnUnauthorized, unwrapEnvelope, withHeaders } from './interceptors';
+
+function jsonResponse(body: unknown, status = 200, url = ''): Response {
+  const response = new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+  Object.defineProperty(response, 'url', { value: url });
+  return response;
+}
+
+describe('interceptor pipeline', () => {
+  it('runs request and response interceptors in registration order', async () => {
+    const order: string[] = [];
+    const requests: TransportRequest[] = [];
+    const client = new DataManagementAPI({
+      transport: async (request) => {
+        order.push('transport');
+        requests.push(request);
+        return jsonResponse({ ok: true });
+      },
+      requestInterceptors: [
+        (request) => {
+          order.push('request 1');
+          return { ...request, headers: { ...request.headers, 'X-Trace': 'a' } };
+        },
+      ],
+      responseInterceptors: [
+        (response) => {
+          order.push('response 1');
+          return response;
+        },
+      ],
+    });
+
+    client.addRequestInterceptor((request) => {
+      order.push('request 2');
+      return { ...request, headers: { ...request.headers, 'X-Trace': `${request.headers['X-Trace']}b` } };
+    });
+    const removeResponse = client.addResponseInterceptor((response) => {
+      order.push('response 2');
+      return response;
+    });
+
+    await client.request('/items');
+    expect(order).toEqual(['request 1', 'request 2', 'transport', 'response 1', 'response 2']);
+    expect(requests[0].headers['X-Trace']).toBe('ab');
+
+    order.length = 0;
+    removeResponse();
+    await client.request('/items');
+    expect(order).toEqual(['request 1', 'request 2', 'transport', 'response 1']);
+  });
+
+  it('adds headers with withHeaders', async () => {
+    const requests: TransportRequest[] = [];
+    const client = new DataManagementAPI({
+      transport: async (request) => {
+        requests.push(request);
+        return jsonResponse({});
+      },
+      requestInterceptors: [withHeaders({ 'X-Api-Version': '2' })],
+    });
+
+    await client.request('/items');
+
+    expect(requests[0].headers['X-Api-Version']).toBe('2');
+  });
+});
+
+describe('refreshTokenOnUnauthorized', () => {
+  it('refreshes once and replays concurrent 401s with the new token', async () => {
+    let token = 'expired';
+    const refresh = vi.fn(async () => {
+      token = 'fresh';
+    });
+    const seen: (string | undefined)[] = [];
+    const client = new DataManagementAPI({
+      getAuthToken: () => token,
+      transport: async (request) => {
+        seen.push(request.headers.Authorization);
+        return request.headers.Authorization === 'Bearer fresh'
+          ? jsonResponse({ ok: true })
+          : jsonResponse({ message: 'Token expired' }, 401);
+      },
+      responseInterceptors: [refreshTokenOnUnauthorized(refresh)],
+    });
+
+    const responses = await Promise.all([client.request('/a'), client.request('/b')]);
+
+    expect(responses.map(response => response.status)).toEqual([200, 200]);
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(seen).toEqual(['Bearer expired', 'Bearer expired', 'Bearer fresh', 'Bearer fresh']);
+  });
+
+  it('keeps the 401 when the refresh returns false', async () => {
+    const transport = vi.fn(async () => jsonResponse({ message: 'Signed out' }, 401));
+    const client = new DataManagementAPI({
+      transport,
+      responseInterceptors: [refreshTokenOnUnauthorized(async () => false)],
+    });
+
+    await expect(client.request('/items')).rejects.toBeInstanceOf(PermissionError);
+    expect(transport).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('unwrapEnvelope', () => {
+  it('unwraps the data key and keeps the response URL', async () => {
+    const unwrap = unwrapEnvelope();
+    const original = jsonResponse({ data: [1, 2], meta: { total: 2 } }, 200, 'https://example.com/api/items');
+
+    const response = await unwrap(original, { request: {} as TransportRequest, replay: async () => original });
+
+    expect(await response.json()).toEqual([1, 2]);
+    expect(response.url).toBe('https://example.com/api/items');
+  });
+
+  it('leaves error responses untouched', async () => {
+    const unwrap = unwrapEnvelope();
+    const original = jsonResponse({ data: 'x' }, 500);
+
+    const response = await unwrap(original, { request: {} as TransportRequest, replay: async () => original });
+
+    expect(response).toBe(original);
+  });
+});
+
+describe('errorFromResponse', () => {
+  const request = { url: '/api/items', method: 'POST' as const };
+
+  it.each([401, 403])('maps %i to a PermissionError caused by the HTTPError', async (status) => {
+    const error = await errorFromResponse(jsonResponse({ message: 'Not allowed' }, status), request);
+
+    expect(error).toBeInstanceOf(PermissionError);
+    expect(error.message).toBe('Not allowed');
+    expect(error.cause).toBeInstanceOf(HTTPError);
+    expect(error.details).toMatchObject({ status, url: '/api/items', method: 'POST' });
+  });
+
+  it('maps 422 to a ValidationError with the response body', async () => {
+    const body = { message: 'Invalid', errors: { email: ['taken'] } };
+    const error = await errorFromResponse(jsonResponse(body, 422), request);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.details).toMatchObject({ status: 422, body });
+  });
+
+  it('returns the HTTPError itself for other statuses', async () => {
+    const error = await errorFromResponse(new Response('Down for maintenance', { status: 503 }), request);
+
+    expect(error).toBeInstanceOf(HTTPError);
+    expect(error.details).toMatchObject({ status: 503, body: 'Down for maintenance' });
+  });
+});
@@ -0,0 +1,61 @@
+// Ready-made interceptors for DataManagementAPI
+import type { RequestInterceptor, ResponseInterceptor } from '../types';
+
+/**
+ * Add headers to every request (e.g. API version, tenant id)
+ */
+export function withHeaders(headers: Record<string, string>): RequestInterceptor {
+  return (request) => ({
+    ...request,
+    headers: { ...request.headers, ...headers },
+  });
+}
+
+/**
+ * Unwrap `{ data: ... }` style envelopes from successful JSON responses.
+ * The rebuilt response keeps the original `url`.
+ */
+export function unwrapEnvelope(key = 'data'): ResponseInterceptor {
+  return async (response) => {
+    const contentType = response.headers.get('Content-Type') ?? '';
+    if (!response.ok || !contentType.includes('application/json')) {
+      return response;
+    }
+
+    const body = await response.json();
+    const unwrapped = body && typeof body === 'object' && key in body ? body[key] : body;
+
+    const unwrappedResponse = new Response(JSON.stringify(unwrapped), {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+    // The constructor always leaves `url` empty
+    Object.defineProperty(unwrappedResponse, 'url', { value: response.url });
+    return unwrappedResponse;
+  };
+}
+
+/**
+ * Refresh an expired token on 401 and replay the request once.
+ * `refresh` should update whatever the client's `getAuthToken` reads.
+ */
+export function refreshTokenOnUnauthorized(
+  refresh: () => Promise<boolean | void>
+): ResponseInterceptor {
+  let pendingRefresh: Promise<boolean | void> | null = null;
+
+  return async (response, { replay }) => {
+    if (response.status !== 401) {
+      return response;
+    }
+
+    // Concurrent 401s share a single refresh
+    pendingRefresh ??= refresh().finally(() => {
+      pendingRefresh = null;
+    });
+
+    const refreshed = await pendingRefresh;
+    return refreshed === false ? response : replay();
+  };
+}
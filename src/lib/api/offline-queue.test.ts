@@ -0,0 +1,316 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { OfflineQueueEvent, TransportRequest } from '../types';
+import { ErrorHandler } from '../error-handling';
+import { DataManagementAPI } from './data-management';
+import { BackgroundSyncAPI } from './pwa';
+
+interface Item {
+  id?: number;
+  title: string;
+}
+
+// What navigator.onLine reports, and whether requests get through
+let online = true;
+let reachable = true;
+let dbCount = 0;
+
+// Throws like fetch while unreachable, otherwise answers with `status`
+function networkTransport(status = 201) {
+  const requests: TransportRequest[] = [];
+  const transport = async (request: TransportRequest) => {
+    if (!online || !reachable) {
+      throw new TypeError('Failed to fetch');
+    }
+    requests.push(request);
+    return new Response(JSON.stringify({ id: 1, title: 'Saved' }), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  };
+  return { requests, transport };
+}
+
+function createClient(transport: (request: TransportRequest) => Promise<Response>) {
+  return new DataManagementAPI({ transport, offlineQueue: { dbName: `offline-test-${++dbCount}` } });
+}
+
+function callbacks() {
+  return {
+    onOptimisticUpdate: vi.fn(),
+    onRollback: vi.fn(),
+    onSuccess: vi.fn(),
+  };
+}
+
+function nextEvent(client: DataManagementAPI, type: OfflineQueueEvent['type']): Promise<OfflineQueueEvent> {
+  return new Promise((resolve) => {
+    const unsubscribe = client.offlineQueue!.subscribe((event) => {
+      if (event.type === type) {
+        unsubscribe();
+        resolve(event);
+      }
+    });
+  });
+}
+
+function goOnline() {
+  online = true;
+  reachable = true;
+  window.dispatchEvent(new Event('online'));
+}
+
+// A service worker controlling the page, with Background Sync available
+function controllingServiceWorker(): EventTarget {
+  const serviceWorker = Object.assign(new EventTarget(), { controller: {} });
+  Object.defineProperty(navigator, 'serviceWorker', { value: serviceWorker, configurable: true });
+  vi.spyOn(BackgroundSyncAPI, 'isSupported').mockReturnValue(true);
+  vi.spyOn(BackgroundSyncAPI, 'register').mockResolvedValue();
+  return serviceWorker;
+}
+
+beforeEach(() => {
+  online = true;
+  reachable = true;
+  vi.spyOn(navigator, 'onLine', 'get').mockImplementation(() => online);
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('OfflineMutationQueue', () => {
+  it('queues mutations made offline and replays them on reconnect', async () => {
+    online = false;
+    const { requests, transport } = networkTransport();
+    const client = createClient(transport);
+    const handlers = callbacks();
+
+    await client.optimisticMutation<Item>({ title: 'Draft' }, '/items', handlers);
+
+    const [queued] = await client.offlineQueue!.list();
+    expect(queued).toMatchObject({ endpoint: '/items', method: 'POST', data: { title: 'Draft' } });
+    expect(handlers.onOptimisticUpdate).toHaveBeenLastCalledWith(expect.objectContaining({ queued: true }));
+
+    const replayed = nextEvent(client, 'replayed');
+    goOnline();
+    await replayed;
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].headers['Idempotency-Key']).toBe(queued.idempotencyKey);
+    expect(handlers.onSuccess).toHaveBeenCalledWith({ id: 1, title: 'Saved' });
+    expect(await client.offlineQueue!.size()).toBe(0);
+    client.offlineQueue!.stop();
+  });
+
+  it('replays with the Idempotency-Key of the attempt that failed', async () => {
+    const keys: (string | undefined)[] = [];
+    const { transport } = networkTransport();
+    const client = createClient(async (request) => {
+      keys.push(request.headers['Idempotency-Key']);
+      // The connection drops mid-request, so the server may have seen the first attempt
+      if (keys.length === 1) {
+        online = false;
+      }
+      return transport(request);
+    });
+
+    await client.optimisticMutation<Item>({ title: 'Draft' }, '/items', callbacks());
+    await client.offlineQueue!.replay();
+
+    const replayed = nextEvent(client, 'replayed');
+    goOnline();
+    await replayed;
+
+    expect(keys.length).toBeGreaterThanOrEqual(2);
+    expect(keys[0]).toEqual(expect.any(String));
+    expect(new Set(keys).size).toBe(1);
+    client.offlineQueue!.stop();
+  });
+
+  it('rolls back and reports a conflict when the server rejects a replay', async () => {
+    online = false;
+    const { transport } = networkTransport(409);
+    const client = createClient(transport);
+    const handlers = callbacks();
+
+    await client.optimisticMutation<Item>({ title: 'Draft' }, '/items', { ...handlers, method: 'PUT' });
+    const handle = vi.spyOn(ErrorHandler, 'handle');
+
+    const conflict = nextEvent(client, 'conflict');
+    goOnline();
+    const event = await conflict;
+
+    expect(event).toMatchObject({ type: 'conflict', error: { code: 'MUTATION_CONFLICT' } });
+    expect(handle).toHaveBeenCalledTimes(1);
+    expect(handle.mock.calls[0][0]).toMatchObject({ code: 'MUTATION_CONFLICT' });
+    expect(handlers.onRollback).toHaveBeenCalledTimes(1);
+    expect(await client.offlineQueue!.size()).toBe(0);
+    client.offlineQueue!.stop();
+  });
+
+  it('keeps mutations queued in the same millisecond in order', async () => {
+    vi.spyOn(Date, 'now').mockReturnValue(1_000);
+    online = false;
+    const client = createClient(networkTransport().transport);
+
+    for (const title of ['A', 'B', 'C', 'D']) {
+      await client.optimisticMutation<Item>({ title }, '/items', callbacks());
+    }
+
+    const queued = await client.offlineQueue!.list<Item>();
+    expect(queued.map(mutation => mutation.data.title)).toEqual(['A', 'B', 'C', 'D']);
+    client.offlineQueue!.stop();
+  });
+
+  it('shares one replay between overlapping triggers', () => {
+    const client = createClient(networkTransport().transport);
+    expect(client.offlineQueue!.replay()).toBe(client.offlineQueue!.replay());
+  });
+
+  it('keeps mutations queued while the network is still down', async () => {
+    online = false;
+    const { transport } = networkTransport();
+    const client = createClient(transport);
+
+    await client.optimisticMutation<Item>({ title: 'First' }, '/items', callbacks());
+    await client.offlineQueue!.replay();
+
+    expect(await client.offlineQueue!.size()).toBe(1);
+    client.offlineQueue!.stop();
+  });
+
+  it('rolls back instead of queueing when the server is down but the browser is online', async () => {
+    reachable = false;
+    const { requests, transport } = networkTransport();
+    const client = createClient(transport);
+    const handlers = callbacks();
+
+    await client.optimisticMutation<Item>({ title: 'Draft' }, '/items', handlers);
+
+    expect(handlers.onRollback).toHaveBeenCalledTimes(1);
+    expect(handlers.onOptimisticUpdate).toHaveBeenLastCalledWith(
+      expect.objectContaining({ error: expect.objectContaining({ code: 'NETWORK_ERROR' }) })
+    );
+    expect(await client.offlineQueue!.size()).toBe(0);
+
+    reachable = true;
+    await client.optimisticMutation<Item>({ title: 'Second' }, '/items', callbacks());
+    expect(requests).toHaveLength(1);
+    client.offlineQueue!.stop();
+  });
+
+  it('drains the queue when a mutation is made online without an online event', async () => {
+    online = false;
+    const { requests, transport } = networkTransport();
+    const client = createClient(transport);
+    const first = callbacks();
+    const second = callbacks();
+
+    await client.optimisticMutation<Item>({ title: 'First' }, '/items', first);
+
+    // The connection came back but the `online` event was missed
+    online = true;
+    const replayed = new Promise<void>((resolve) => {
+      let count = 0;
+      client.offlineQueue!.subscribe((event) => {
+        if (event.type === 'replayed' && ++count === 2) resolve();
+      });
+    });
+    await client.optimisticMutation<Item>({ title: 'Second' }, '/items', second);
+    await replayed;
+
+    expect(requests.map(request => JSON.parse(String(request.body)).title)).toEqual(['First', 'Second']);
+    expect(first.onSuccess).toHaveBeenCalled();
+    expect(second.onSuccess).toHaveBeenCalled();
+    expect(await client.offlineQueue!.size()).toBe(0);
+    client.offlineQueue!.stop();
+  });
+
+  it('retries a replay with backoff while the browser is online but the server is unreachable', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    online = false;
+    const { requests, transport } = networkTransport();
+    const client = createClient(transport);
+
+    await client.optimisticMutation<Item>({ title: 'Draft' }, '/items', callbacks());
+    const handle = vi.spyOn(ErrorHandler, 'handle');
+
+    reachable = false;
+    online = true;
+    window.dispatchEvent(new Event('online'));
+    await client.offlineQueue!.replay();
+    expect(await client.offlineQueue!.size()).toBe(1);
+
+    // The scheduled retry picks it up once the server answers again
+    const replayed = nextEvent(client, 'replayed');
+    reachable = true;
+    await replayed;
+
+    expect(requests).toHaveLength(1);
+    expect(await client.offlineQueue!.size()).toBe(0);
+    // Failed attempts while unreachable are not reported
+    expect(handle).not.toHaveBeenCalled();
+    client.offlineQueue!.stop();
+  });
+
+  it('registers a Background Sync and replays when the service worker relays it', async () => {
+    const serviceWorker = controllingServiceWorker();
+
+    try {
+      online = false;
+      const { requests, transport } = networkTransport();
+      const client = createClient(transport);
+
+      await client.optimisticMutation<Item>({ title: 'Draft' }, '/items', callbacks());
+      expect(BackgroundSyncAPI.register).toHaveBeenCalledWith('offline-mutations');
+
+      // The connection is back but no `online` event arrives; messages for other tags are ignored
+      online = true;
+      serviceWorker.dispatchEvent(new MessageEvent('message', { data: { type: 'background-sync', tag: 'other' } }));
+      await new Promise(resolve => setTimeout(resolve, 20));
+      expect(requests).toHaveLength(0);
+
+      const replayed = nextEvent(client, 'replayed');
+      serviceWorker.dispatchEvent(new MessageEvent('message', {
+        data: { type: 'background-sync', tag: 'offline-mutations' },
+      }));
+      await replayed;
+
+      expect(requests).toHaveLength(1);
+      expect(await client.offlineQueue!.size()).toBe(0);
+      client.offlineQueue!.stop();
+    } finally {
+      Reflect.deleteProperty(navigator, 'serviceWorker');
+    }
+  });
+
+  it('falls back to the online event when Background Sync is in use, replaying once', async () => {
+    const serviceWorker = controllingServiceWorker();
+
+    try {
+      online = false;
+      const { requests, transport } = networkTransport();
+      const client = createClient(transport);
+
+      await client.optimisticMutation<Item>({ title: 'Draft' }, '/items', callbacks());
+      expect(BackgroundSyncAPI.register).toHaveBeenCalled();
+
+      // No sync event arrives; coming back online is enough
+      const replayed = nextEvent(client, 'replayed');
+      goOnline();
+      await replayed;
+
+      serviceWorker.dispatchEvent(new MessageEvent('message', {
+        data: { type: 'background-sync', tag: 'offline-mutations' },
+      }));
+      await client.offlineQueue!.replay();
+
+      expect(requests).toHaveLength(1);
+      client.offlineQueue!.stop();
+    } finally {
+      Reflect.deleteProperty(navigator, 'serviceWorker');
+    }
+  });
+});
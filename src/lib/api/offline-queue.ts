@@ -0,0 +1,309 @@
+// Offline mutation queue persisted in IndexedDB
+import type {
+  ApiError,
+  OfflineQueueConfig,
+  OfflineQueueEvent,
+  OptimisticUpdate,
+  QueuedMutation,
+} from '../types';
+import type { DataManagementAPI } from './data-management';
+import { BackgroundSyncAPI } from './pwa';
+import { getRetryDelay, resolveRetryPolicy } from './retry';
+import { APIError, ErrorHandler, NetworkError } from '../error-handling';
+import { Messages } from '../messages';
+
+const STORE_NAME = 'mutations';
+
+// Statuses that mean the server state moved on since the mutation was queued
+const CONFLICT_STATUSES = [409, 412];
+
+export interface MutationCallbacks<T> {
+  onOptimisticUpdate: (update: OptimisticUpdate<T>) => void;
+  onRollback: (id: string) => void;
+  onSuccess: (data: T) => void;
+}
+
+// Backoff between replays that fail while the browser reports a connection
+const REPLAY_BACKOFF = resolveRetryPolicy(undefined, { baseDelay: 1_000, maxDelay: 60_000 });
+
+/**
+ * True when a mutation failed because the browser has no connection. A
+ * NetworkError while online (server down, CORS) is not; it fails as usual.
+ */
+export function isOfflineError(error: ApiError): boolean {
+  return error instanceof NetworkError && isBrowserOffline();
+}
+
+function isBrowserOffline(): boolean {
+  return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
+
+/**
+ * Mutations that could not reach the server, replayed in order on reconnect
+ *
+ * Replay is triggered by the window `online` event and, where supported, by
+ * a Background Sync `sync` event: the service worker should post
+ * `{ type: 'background-sync', tag }` to its clients so the page replays
+ * with its own auth and interceptors. Overlapping triggers share one replay.
+ * Mutations enqueued while online are sent right away, and a replay that
+ * cannot reach the server while online is retried with backoff.
+ *
+ * Callbacks only live for the current page; mutations restored after a
+ * reload report their outcome through `subscribe()`.
+ */
+export class OfflineMutationQueue {
+  private client: DataManagementAPI;
+  private dbName: string;
+  private syncTag: string;
+  private db: Promise<IDBDatabase> | null = null;
+  private callbacks = new Map<string, MutationCallbacks<any>>();
+  private listeners = new Set<(event: OfflineQueueEvent) => void>();
+  private replaying: Promise<void> | null = null;
+  private replayAgain = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryAttempt = 0;
+  private lastCreatedAt = 0;
+  private detachListeners: (() => void) | null = null;
+
+  constructor(client: DataManagementAPI, config: OfflineQueueConfig = {}) {
+    this.client = client;
+    this.dbName = config.dbName ?? 'offline-mutations';
+    this.syncTag = config.syncTag ?? 'offline-mutations';
+  }
+
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * Store a mutation and schedule a replay for when the network is back
+   */
+  async enqueue<T>(mutation: QueuedMutation<T>, callbacks?: MutationCallbacks<T>): Promise<void> {
+    // IDs are random, so mutations queued in the same millisecond need distinct times to keep their order
+    const createdAt = Math.max(mutation.createdAt, this.lastCreatedAt + 1);
+    this.lastCreatedAt = createdAt;
+    mutation = { ...mutation, createdAt };
+
+    await this.withStore('readwrite', store => store.put(mutation));
+    if (callbacks) {
+      this.callbacks.set(mutation.id, callbacks);
+    }
+
+    this.emit({ type: 'queued', mutation });
+    this.scheduleReplay();
+  }
+
+  /**
+   * Queued mutations, oldest first
+   */
+  async list<T = unknown>(): Promise<QueuedMutation<T>[]> {
+    const mutations = await this.withStore<QueuedMutation<T>[]>('readonly', store => store.getAll());
+    return mutations.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async size(): Promise<number> {
+    return this.withStore('readonly', store => store.count());
+  }
+
+  async remove(id: string): Promise<void> {
+    this.callbacks.delete(id);
+    await this.withStore('readwrite', store => store.delete(id));
+  }
+
+  subscribe(listener: (event: OfflineQueueEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Listen for reconnects and replay anything left from a previous session
+   */
+  start(): void {
+    if (this.detachListeners || typeof window === 'undefined' || !OfflineMutationQueue.isSupported()) return;
+
+    const replay = () => {
+      this.replay();
+    };
+    const onMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'background-sync' && event.data.tag === this.syncTag) {
+        this.replay();
+      }
+    };
+
+    // Sync events can be delayed or dropped, so `online` is always a fallback
+    window.addEventListener('online', replay);
+    if (this.usesBackgroundSync()) {
+      navigator.serviceWorker.addEventListener('message', onMessage);
+    }
+
+    this.detachListeners = () => {
+      navigator.serviceWorker?.removeEventListener('message', onMessage);
+      window.removeEventListener('online', replay);
+    };
+
+    if (navigator.onLine) {
+      this.replay();
+    }
+  }
+
+  stop(): void {
+    this.detachListeners?.();
+    this.detachListeners = null;
+    this.clearRetry();
+  }
+
+  /**
+   * Send queued mutations in order. Stops at the first network failure so
+   * later mutations never overtake earlier ones.
+   */
+  replay(): Promise<void> {
+    if (this.replaying) {
+      // Mutations enqueued after this pass read the queue still need sending
+      this.replayAgain = true;
+      return this.replaying;
+    }
+
+    this.clearRetry();
+    this.replaying = this.replayQueue().finally(() => {
+      this.replaying = null;
+    });
+    return this.replaying;
+  }
+
+  private async replayQueue(): Promise<void> {
+    do {
+      this.replayAgain = false;
+      if (!await this.replayPass()) return;
+    } while (this.replayAgain);
+
+    this.retryAttempt = 0;
+  }
+
+  // False when the network failed and the rest of the queue was left for later
+  private async replayPass(): Promise<boolean> {
+    for (const mutation of await this.list()) {
+      const callbacks = this.callbacks.get(mutation.id);
+
+      try {
+        const response = await this.client.request(mutation.endpoint, {
+          method: mutation.method,
+          // Same key as the original attempt; entries queued without one fall back to their ID
+          headers: { 'Content-Type': 'application/json', 'Idempotency-Key': mutation.idempotencyKey ?? mutation.id },
+          body: mutation.method === 'DELETE' ? undefined : JSON.stringify(mutation.data),
+          retry: false,
+        });
+
+        const text = await response.text();
+        const result = text ? JSON.parse(text) : mutation.data;
+
+        await this.remove(mutation.id);
+        callbacks?.onSuccess(result);
+        this.emit({ type: 'replayed', mutation, result });
+      } catch (error) {
+        // Network failures are expected while offline and the mutation stays
+        // queued, so only conflicts and rejected mutations are reported
+        const apiError = ErrorHandler.normalize(error);
+        if (apiError instanceof NetworkError) {
+          // Offline waits for the `online` event; an unreachable server is retried
+          if (!isBrowserOffline()) {
+            this.scheduleRetry();
+          }
+          return false;
+        }
+
+        await this.remove(mutation.id);
+
+        const status = apiError.details && typeof apiError.details === 'object' ? apiError.details.status : undefined;
+        const conflict = typeof status === 'number' && CONFLICT_STATUSES.includes(status);
+        const reported = conflict
+          ? new APIError(
+              Messages.format('error.conflict', { method: mutation.method, endpoint: mutation.endpoint }),
+              'MUTATION_CONFLICT',
+              { status, id: mutation.id, message: apiError.message }
+            )
+          : apiError;
+        ErrorHandler.handle(reported);
+
+        callbacks?.onRollback(mutation.id);
+        callbacks?.onOptimisticUpdate({
+          id: mutation.id,
+          data: mutation.data,
+          pending: false,
+          error: reported,
+        });
+        this.emit({ type: conflict ? 'conflict' : 'failed', mutation, error: reported });
+      }
+    }
+
+    return true;
+  }
+
+  private scheduleReplay(): void {
+    this.start();
+
+    // Queued behind earlier mutations while online; no `online` event will come
+    if (!isBrowserOffline()) {
+      this.replay();
+    }
+
+    if (this.usesBackgroundSync()) {
+      BackgroundSyncAPI.register(this.syncTag).catch(() => undefined);
+    }
+  }
+
+  private scheduleRetry(): void {
+    if (this.retryTimer || !this.detachListeners) return;
+
+    const delay = getRetryDelay(++this.retryAttempt, REPLAY_BACKOFF);
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.replay();
+    }, delay);
+  }
+
+  private clearRetry(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  // Background Sync needs a service worker controlling this page to relay the event
+  private usesBackgroundSync(): boolean {
+    return typeof navigator !== 'undefined' &&
+      Boolean(navigator.serviceWorker?.controller) &&
+      BackgroundSyncAPI.isSupported();
+  }
+
+  private emit(event: OfflineQueueEvent<any>): void {
+    this.listeners.forEach(listener => listener(event));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    this.db ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return this.db;
+  }
+
+  private async withStore<R>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<R> {
+    const db = await this.open();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = operation(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+}
@@ -1,12 +1,15 @@
 // Performance & User Experience APIs
 import { SpeculationRule, WorkerMessage, WorkerResponse } from '../types';
+import { APIError, ErrorHandler } from '../error-handling';
+import { Messages } from '../messages';
+import { FeatureDetection } from '../feature-detection';
 
 /**
  * Speculation Rules API for intelligent prefetching
  */
 export class SpeculationAPI {
   static isSupported(): boolean {
-    return 'speculationRules' in HTMLScriptElement.prototype;
+    return FeatureDetection.checkWebAPI('speculationRules');
   }
 
   static addRules(rules: {
@@ -74,7 +77,7 @@ export class WorkerAPI {
   }>();
 
   static isSupported(): boolean {
-    return 'Worker' in window;
+    return FeatureDetection.checkWebAPI('webWorkers');
   }
 
   static create(
@@ -97,7 +100,9 @@ export class WorkerAPI {
         
         if (pending) {
           if (response.error) {
-            pending.reject(new Error(response.error));
+            pending.reject(typeof response.error === 'string'
+              ? new Error(response.error)
+              : APIError.fromJSON(response.error));
           } else {
             pending.resolve(response.result);
           }
@@ -105,14 +110,28 @@ export class WorkerAPI {
         }
       };
 
-      worker.onerror = (error) => {
-        console.error('Worker error:', error);
+      worker.onerror = (event) => {
+        ErrorHandler.handle(new APIError(
+          event.message
+            ? Messages.format('error.worker', { message: event.message })
+            : Messages.format('error.worker.failed'),
+          'WORKER_ERROR',
+          { workerId, filename: event.filename, lineno: event.lineno, colno: event.colno }
+        ));
+      };
+
+      worker.onmessageerror = () => {
+        ErrorHandler.handle(new APIError(
+          Messages.format('error.worker.messageError'),
+          'WORKER_ERROR',
+          { workerId }
+        ));
       };
 
       this.workers.set(workerId, worker);
       return workerId;
     } catch (error) {
-      console.error('Worker creation failed:', error);
+      ErrorHandler.handle(error);
       return null;
     }
   }
@@ -244,7 +263,7 @@ export class PerformanceAPI {
     }
 
     // Largest Contentful Paint
-    if ('PerformanceObserver' in window) {
+    if (FeatureDetection.checkWebAPI('performanceObserver')) {
       try {
         const observer = new PerformanceObserver((list) => {
           const entries = list.getEntries();
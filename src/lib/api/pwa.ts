@@ -1,12 +1,13 @@
 // Progressive Web App APIs
 import { NotificationOptions, CacheOptions } from '../types';
+import { FeatureDetection } from '../feature-detection';
 
 /**
  * Service Worker Management API
  */
 export class ServiceWorkerAPI {
   static isSupported(): boolean {
-    return 'serviceWorker' in navigator;
+    return FeatureDetection.checkWebAPI('serviceWorker');
   }
 
   static async register(
@@ -76,7 +77,7 @@ export class ServiceWorkerAPI {
  */
 export class NotificationAPI {
   static isSupported(): boolean {
-    return 'Notification' in window;
+    return FeatureDetection.checkWebAPI('notifications');
   }
 
   static async requestPermission(): Promise<NotificationPermission> {
@@ -161,7 +162,7 @@ export class NotificationAPI {
  */
 export class CacheAPI {
   static isSupported(): boolean {
-    return 'caches' in window;
+    return FeatureDetection.checkWebAPI('cacheAPI');
   }
 
   static async open(cacheName: string): Promise<Cache | null> {
@@ -321,7 +322,7 @@ export class CacheAPI {
  */
 export class BackgroundSyncAPI {
   static isSupported(): boolean {
-    return 'serviceWorker' in navigator && 'sync' in window.ServiceWorkerRegistration.prototype;
+    return FeatureDetection.checkWebAPI('backgroundSync');
   }
 
   static async register(
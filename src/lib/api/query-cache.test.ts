@@ -0,0 +1,213 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { QueryCache, withQueryParams } from './query-cache';
+
+// Resolves with `value`, counting calls
+function fetcherOf<T>(value: T | (() => T)) {
+  return vi.fn(async () => typeof value === 'function' ? (value as () => T)() : value);
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+  localStorage.clear();
+});
+
+describe('QueryCache.key', () => {
+  it('sorts params and skips empty ones', () => {
+    expect(QueryCache.key('/items', { page: 2, q: 'a b', empty: undefined, sort: null })).toBe('/items?page=2&q=a+b');
+    expect(QueryCache.key('/items', { q: 'x', page: 1 })).toBe(QueryCache.key('/items', { page: 1, q: 'x' }));
+    expect(withQueryParams('/items?x=1', { y: 2 })).toBe('/items?x=1&y=2');
+  });
+});
+
+describe('QueryCache.fetch', () => {
+  it('shares one fetch between concurrent callers', async () => {
+    const cache = new QueryCache();
+    const fetcher = fetcherOf([1]);
+
+    const [first, second] = await Promise.all([cache.fetch('/items', fetcher), cache.fetch('/items', fetcher)]);
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(first).toBe(second);
+  });
+
+  it('serves fresh data without refetching', async () => {
+    const cache = new QueryCache({ staleTime: 60_000 });
+    const fetcher = fetcherOf([1]);
+
+    await cache.fetch('/items', fetcher);
+    await cache.fetch('/items', fetcher);
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns stale data at once and revalidates in the background', async () => {
+    vi.useFakeTimers();
+    const cache = new QueryCache({ staleTime: 1000 });
+    let version = 1;
+    const fetcher = fetcherOf(() => ({ version }));
+
+    await cache.fetch('/items', fetcher);
+    vi.advanceTimersByTime(2000);
+    version = 2;
+
+    expect(await cache.fetch('/items', fetcher)).toEqual({ version: 1 });
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    await vi.waitFor(() => expect(cache.getState('/items')?.data).toEqual({ version: 2 }));
+  });
+
+  it('keeps the previous data when a background refetch fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const cache = new QueryCache();
+    await cache.fetch('/items', fetcherOf([1]));
+
+    const failing = vi.fn(async () => {
+      throw new Error('offline');
+    });
+    cache.invalidate('/items');
+    expect(await cache.fetch('/items', failing)).toEqual([1]);
+
+    await vi.waitFor(() => expect(cache.getState('/items')?.error?.message).toBe('offline'));
+    expect(cache.getState('/items')?.data).toEqual([1]);
+  });
+
+  it('refetches on force even when fresh', async () => {
+    const cache = new QueryCache({ staleTime: 60_000 });
+    const fetcher = fetcherOf([1]);
+
+    await cache.fetch('/items', fetcher);
+    await cache.fetch('/items', fetcher, { force: true });
+
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('QueryCache.read', () => {
+  it('returns the same promise until the entry is invalidated', async () => {
+    const cache = new QueryCache();
+    const fetcher = fetcherOf('data');
+
+    const first = cache.read('/items', fetcher);
+    await first;
+    expect(cache.read('/items', fetcher)).toBe(first);
+
+    cache.invalidate('/items');
+    expect(cache.read('/items', fetcher)).not.toBe(first);
+  });
+});
+
+describe('QueryCache.invalidate', () => {
+  it('marks tagged entries stale and refetches only those in use', async () => {
+    const cache = new QueryCache({ staleTime: 60_000 });
+    const watched = fetcherOf([1]);
+    const idle = fetcherOf([2]);
+    const other = fetcherOf([3]);
+
+    await cache.fetch('/items?page=1', watched, { tags: ['items'] });
+    await cache.fetch('/items?page=2', idle, { tags: ['items'] });
+    await cache.fetch('/users', other);
+    const unsubscribe = cache.subscribe('/items?page=1', () => undefined);
+
+    cache.invalidate('items');
+
+    expect(cache.isStale('/items?page=2')).toBe(true);
+    expect(cache.isStale('/users')).toBe(false);
+    expect(watched).toHaveBeenCalledTimes(2);
+    expect(idle).toHaveBeenCalledTimes(1);
+    unsubscribe();
+    cache.clear();
+  });
+
+  it('tags every entry with its endpoint', async () => {
+    const cache = new QueryCache({ staleTime: 60_000 });
+    await cache.fetch('/items?page=1', fetcherOf([1]));
+
+    cache.invalidate('/items');
+
+    expect(cache.isStale('/items?page=1')).toBe(true);
+  });
+});
+
+describe('QueryCache.subscribe', () => {
+  it('notifies once per task with a new snapshot', async () => {
+    const cache = new QueryCache();
+    const listener = vi.fn();
+    const unsubscribe = cache.subscribe('/items', listener);
+    const before = cache.getState('/items');
+
+    cache.set('/items', [1]);
+    cache.set('/items', [1, 2]);
+    await Promise.resolve();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(cache.getState('/items')).not.toBe(before);
+    unsubscribe();
+    cache.clear();
+  });
+});
+
+describe('QueryCache storage', () => {
+  it('evicts the least recently used entry beyond maxEntries', () => {
+    vi.useFakeTimers();
+    const cache = new QueryCache({ maxEntries: 2 });
+
+    cache.set('/a', 1);
+    vi.advanceTimersByTime(1);
+    cache.set('/b', 2);
+    vi.advanceTimersByTime(1);
+    cache.set('/a', 1);
+    vi.advanceTimersByTime(1);
+    cache.set('/c', 3);
+
+    expect(cache.getState('/a')?.data).toBe(1);
+    expect(cache.getState('/b')).toBeUndefined();
+    expect(cache.getState('/c')?.data).toBe(3);
+  });
+
+  it('restores persisted entries in a new cache', () => {
+    new QueryCache({ persist: true }).set('/items', [1, 2], ['items']);
+
+    const restored = new QueryCache({ persist: true });
+
+    expect(restored.getState('/items')?.data).toEqual([1, 2]);
+    restored.invalidate('items');
+    expect(restored.isStale('/items')).toBe(true);
+  });
+});
+
+describe('QueryCache optimistic updates', () => {
+  it('rewrites cached lists by tag', () => {
+    const cache = new QueryCache();
+    cache.set('/todos?done=false', [{ id: 1 }], ['todos']);
+    cache.set('/todos?done=true', [], ['todos']);
+    cache.set('/users', [{ id: 9 }]);
+
+    cache.setQueriesData<{ id: number | string }[]>('todos', list => [...list, { id: 'temp' }]);
+
+    expect(cache.getState('/todos?done=false')?.data).toEqual([{ id: 1 }, { id: 'temp' }]);
+    expect(cache.getState('/todos?done=true')?.data).toEqual([{ id: 'temp' }]);
+    expect(cache.getState('/users')?.data).toEqual([{ id: 9 }]);
+  });
+
+  it('swaps a temporary ID everywhere it appears', () => {
+    const cache = new QueryCache();
+    cache.set('/todos', [{ id: 'temp-1', title: 'Draft' }, { id: 2, title: 'Other' }]);
+    cache.set('/comments', [{ id: 5, todoId: 'temp-1', tags: ['temp-1'] }]);
+    const untouched = cache.getState('/todos?done=true');
+
+    cache.swapId('temp-1', 42);
+
+    expect(cache.getState('/todos')?.data).toEqual([{ id: 42, title: 'Draft' }, { id: 2, title: 'Other' }]);
+    expect(cache.getState('/comments')?.data).toEqual([{ id: 5, todoId: 42, tags: [42] }]);
+    expect(cache.getState('/todos?done=true')).toBe(untouched);
+  });
+
+  it('keeps unrelated data by reference', () => {
+    const cache = new QueryCache();
+    const other = { id: 2 };
+    cache.set('/todos', [{ id: 'temp-1' }, other]);
+
+    cache.swapId('temp-1', 42);
+
+    expect((cache.getState<unknown[]>('/todos')?.data)?.[1]).toBe(other);
+  });
+});
@@ -0,0 +1,433 @@
+// In-memory query cache with optional persistence and tag invalidation
+import type { ApiError, QueryCacheConfig, QueryParams, QueryState } from '../types';
+import { APIError, ErrorHandler } from '../error-handling';
+
+interface QueryRecord {
+  state: QueryState;
+  tags: Set<string>;
+  fetcher?: () => Promise<unknown>;
+  inflight?: Promise<unknown>;
+  listeners: Set<() => void>;
+  lastAccess: number;
+}
+
+interface PersistedQuery {
+  data: unknown;
+  updatedAt: number;
+  tags: string[];
+}
+
+// React reads `status`/`value` to skip suspending on already-settled promises
+type TrackedPromise<T> = Promise<T> & {
+  status?: 'pending' | 'fulfilled' | 'rejected';
+  value?: T;
+  reason?: unknown;
+};
+
+const STORAGE_PREFIX = 'query:';
+
+/**
+ * Query cache with stale-while-revalidate semantics
+ *
+ * Entries are keyed by endpoint plus sorted query params, tagged for bulk
+ * invalidation, evicted least-recently-used beyond `maxEntries`, and
+ * revalidated on window focus and reconnect while something subscribes.
+ */
+export class QueryCache {
+  private records = new Map<string, QueryRecord>();
+  private maxEntries: number;
+  private staleTime: number;
+  private storage: Storage | null;
+  private refetchOnWindowFocus: boolean;
+  private refetchOnReconnect: boolean;
+  private detachWindowListeners: (() => void) | null = null;
+  private pendingNotify = new Set<QueryRecord>();
+
+  constructor(config: QueryCacheConfig = {}) {
+    this.maxEntries = config.maxEntries ?? 100;
+    this.staleTime = config.staleTime ?? 0;
+    this.refetchOnWindowFocus = config.refetchOnWindowFocus ?? true;
+    this.refetchOnReconnect = config.refetchOnReconnect ?? true;
+    this.storage = config.persist === true
+      ? (typeof localStorage !== 'undefined' ? localStorage : null)
+      : config.persist || null;
+  }
+
+  /**
+   * Build a cache key from an endpoint and its query params
+   */
+  static key(endpoint: string, params?: QueryParams): string {
+    const query = toSearchParams(params).toString();
+    return query ? `${endpoint}?${query}` : endpoint;
+  }
+
+  getState<T>(key: string): QueryState<T> | undefined {
+    return this.records.get(key)?.state as QueryState<T> | undefined
+      ?? this.hydrate(key)?.state as QueryState<T> | undefined;
+  }
+
+  isStale(key: string, staleTime = this.staleTime): boolean {
+    const state = this.getState(key);
+    if (!state || !state.updatedAt || state.isInvalidated) {
+      return true;
+    }
+    return Date.now() - state.updatedAt > staleTime;
+  }
+
+  /**
+   * Return cached data, revalidating stale entries in the background.
+   * Only suspends (returns a pending promise) when nothing is cached yet.
+   */
+  fetch<T>(
+    key: string,
+    fetcher: () => Promise<T>,
+    options: { staleTime?: number; tags?: string[]; force?: boolean } = {}
+  ): Promise<T> {
+    const record = this.ensure(key);
+    record.fetcher = fetcher;
+    options.tags?.forEach(tag => record.tags.add(tag));
+
+    const { state } = record;
+    if (state.isFetching && state.promise) {
+      return state.promise as Promise<T>;
+    }
+
+    const stale = options.force || this.isStale(key, options.staleTime);
+    if (!stale && state.promise) {
+      return state.promise as Promise<T>;
+    }
+
+    const loading = this.load(record, key);
+    if (state.data !== undefined && !options.force) {
+      // Serve stale data now; background failures are kept in state.error
+      loading.catch(() => undefined);
+      return state.promise as Promise<T>;
+    }
+    return loading as Promise<T>;
+  }
+
+  /**
+   * Stable promise per key for Suspense: settled promises are reused until
+   * the entry is invalidated, so use() never sees a new promise per render
+   */
+  read<T>(key: string, fetcher: () => Promise<T>, tags: string[] = []): Promise<T> {
+    const record = this.ensure(key);
+    record.fetcher = fetcher;
+    tags.forEach(tag => record.tags.add(tag));
+
+    const { state } = record;
+    if (state.promise && !state.isInvalidated) {
+      return state.promise as Promise<T>;
+    }
+    return (record.inflight ?? this.load(record, key)) as Promise<T>;
+  }
+
+  /**
+   * Refetch an entry with its last fetcher
+   */
+  revalidate(key: string): Promise<unknown> | undefined {
+    const record = this.records.get(key);
+    if (!record?.fetcher || record.state.isFetching) {
+      return record?.state.promise;
+    }
+    return this.load(record, key).catch(() => undefined);
+  }
+
+  set<T>(key: string, data: T, tags: string[] = []): void {
+    const record = this.ensure(key);
+    tags.forEach(tag => record.tags.add(tag));
+
+    this.update(key, record, {
+      data,
+      error: undefined,
+      updatedAt: Date.now(),
+      isInvalidated: false,
+      promise: settledPromise(data),
+    });
+    this.persist(key, record);
+  }
+
+  /**
+   * Mark entries as stale by tag (or exact key) and refetch those in use
+   */
+  invalidate(tags: string | string[]): void {
+    this.matching(tags).forEach(([key, record]) => {
+      this.update(key, record, { isInvalidated: true });
+      if (record.listeners.size > 0) {
+        this.revalidate(key);
+      }
+    });
+  }
+
+  /**
+   * Rewrite cached data in place for entries matching tags (or exact key),
+   * e.g. to show an optimistic entity in every list that should contain it
+   */
+  setQueriesData<T>(tags: string | string[], updater: (data: T) => T): void {
+    this.matching(tags).forEach(([key, record]) => {
+      if (record.state.data === undefined) return;
+      this.replaceData(key, record, updater(record.state.data as T));
+    });
+  }
+
+  /**
+   * Swap a temporary ID for the server-assigned one everywhere it appears
+   * in cached data, including references from other entities
+   */
+  swapId(tempId: string, serverId: string | number): void {
+    this.records.forEach((record, key) => {
+      const data = replaceValue(record.state.data, tempId, serverId);
+      if (data !== record.state.data) {
+        this.replaceData(key, record, data);
+      }
+    });
+  }
+
+  subscribe(key: string, listener: () => void): () => void {
+    const record = this.ensure(key);
+    record.listeners.add(listener);
+    this.attachWindowListeners();
+
+    return () => {
+      record.listeners.delete(listener);
+    };
+  }
+
+  remove(key: string): void {
+    this.records.delete(key);
+    this.storage?.removeItem(STORAGE_PREFIX + key);
+  }
+
+  clear(): void {
+    [...this.records.keys()].forEach(key => this.remove(key));
+    this.detachWindowListeners?.();
+    this.detachWindowListeners = null;
+  }
+
+  private matching(tags: string | string[]): [string, QueryRecord][] {
+    const targets = new Set(Array.isArray(tags) ? tags : [tags]);
+    return [...this.records.entries()].filter(([key, record]) =>
+      targets.has(key) || [...record.tags].some(tag => targets.has(tag))
+    );
+  }
+
+  // Keeps updatedAt so local edits do not postpone the next revalidation
+  private replaceData(key: string, record: QueryRecord, data: unknown): void {
+    this.update(key, record, { data, promise: settledPromise(data) });
+    this.persist(key, record);
+  }
+
+  private load(record: QueryRecord, key: string): Promise<unknown> {
+    const fetcher = record.fetcher;
+    if (!fetcher) {
+      return Promise.reject(new Error(`No fetcher registered for query ${key}`));
+    }
+
+    const loading: TrackedPromise<unknown> = fetcher().then(
+      (data) => {
+        loading.status = 'fulfilled';
+        loading.value = data;
+        record.inflight = undefined;
+        this.update(key, record, {
+          data,
+          error: undefined,
+          updatedAt: Date.now(),
+          isFetching: false,
+          isInvalidated: false,
+          promise: loading,
+        });
+        this.persist(key, record);
+        return data;
+      },
+      (error: unknown) => {
+        loading.status = 'rejected';
+        loading.reason = error;
+        record.inflight = undefined;
+        const apiError: ApiError = error instanceof APIError ? error : ErrorHandler.handle(error);
+        // Keep serving previous data if there is any; a failed refetch
+        // clears the invalidation so Suspense readers do not retry in a loop
+        this.update(key, record, {
+          error: apiError,
+          isFetching: false,
+          isInvalidated: false,
+          promise: record.state.data !== undefined ? record.state.promise : loading,
+        });
+        throw apiError;
+      }
+    );
+    loading.status = 'pending';
+    record.inflight = loading;
+
+    this.update(key, record, {
+      isFetching: true,
+      // Stale data keeps its settled promise so use() does not suspend again
+      promise: record.state.data !== undefined ? record.state.promise : loading,
+    });
+
+    return loading;
+  }
+
+  private ensure(key: string): QueryRecord {
+    const record = this.records.get(key) ?? this.hydrate(key) ?? this.create(key);
+    record.lastAccess = Date.now();
+    return record;
+  }
+
+  private create(key: string): QueryRecord {
+    const record: QueryRecord = {
+      state: { updatedAt: 0, isFetching: false, isInvalidated: false },
+      tags: new Set([key.split('?')[0]]),
+      listeners: new Set(),
+      lastAccess: Date.now(),
+    };
+    this.records.set(key, record);
+    this.evict(key);
+    return record;
+  }
+
+  private update(key: string, record: QueryRecord, patch: Partial<QueryState>): void {
+    // Snapshots are immutable so useSyncExternalStore sees every change
+    record.state = { ...record.state, ...patch };
+    if (this.records.get(key) !== record) return;
+
+    // Notify after the current task so fetches started during render are safe
+    if (!this.pendingNotify.has(record)) {
+      this.pendingNotify.add(record);
+      queueMicrotask(() => {
+        this.pendingNotify.delete(record);
+        record.listeners.forEach(listener => listener());
+      });
+    }
+  }
+
+  private evict(keep: string): void {
+    if (this.records.size <= this.maxEntries) return;
+
+    const idle = [...this.records.entries()]
+      .filter(([key, record]) => key !== keep && record.listeners.size === 0 && !record.state.isFetching)
+      .sort(([, a], [, b]) => a.lastAccess - b.lastAccess);
+
+    for (const [key] of idle) {
+      if (this.records.size <= this.maxEntries) break;
+      this.remove(key);
+    }
+  }
+
+  private hydrate(key: string): QueryRecord | undefined {
+    if (!this.storage) return undefined;
+
+    try {
+      const raw = this.storage.getItem(STORAGE_PREFIX + key);
+      if (!raw) return undefined;
+
+      const persisted: PersistedQuery = JSON.parse(raw);
+      const record = this.create(key);
+      persisted.tags.forEach(tag => record.tags.add(tag));
+      record.state = {
+        ...record.state,
+        data: persisted.data,
+        updatedAt: persisted.updatedAt,
+        promise: settledPromise(persisted.data),
+      };
+      return record;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private persist(key: string, record: QueryRecord): void {
+    if (!this.storage) return;
+
+    try {
+      const persisted: PersistedQuery = {
+        data: record.state.data,
+        updatedAt: record.state.updatedAt,
+        tags: [...record.tags],
+      };
+      this.storage.setItem(STORAGE_PREFIX + key, JSON.stringify(persisted));
+    } catch {
+      // Ignore quota and serialization errors
+    }
+  }
+
+  private attachWindowListeners(): void {
+    if (this.detachWindowListeners || typeof window === 'undefined') return;
+
+    const revalidateActive = () => {
+      this.records.forEach((record, key) => {
+        if (record.listeners.size > 0 && this.isStale(key)) {
+          this.revalidate(key);
+        }
+      });
+    };
+
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'visible') revalidateActive();
+    };
+
+    if (this.refetchOnWindowFocus) {
+      window.addEventListener('focus', revalidateActive);
+      document.addEventListener('visibilitychange', onVisibilityChange);
+    }
+    if (this.refetchOnReconnect) {
+      window.addEventListener('online', revalidateActive);
+    }
+
+    this.detachWindowListeners = () => {
+      window.removeEventListener('focus', revalidateActive);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      window.removeEventListener('online', revalidateActive);
+    };
+  }
+}
+
+/**
+ * Append query params to an endpoint, skipping null/undefined values
+ */
+export function withQueryParams(endpoint: string, params?: QueryParams): string {
+  const query = toSearchParams(params).toString();
+  if (!query) return endpoint;
+  return `${endpoint}${endpoint.includes('?') ? '&' : '?'}${query}`;
+}
+
+function toSearchParams(params?: QueryParams): URLSearchParams {
+  const search = new URLSearchParams();
+  if (!params) return search;
+
+  Object.keys(params).sort().forEach((name) => {
+    const value = params[name];
+    if (value !== undefined && value !== null) {
+      search.append(name, String(value));
+    }
+  });
+  return search;
+}
+
+// Structural sharing: untouched branches keep their identity
+function replaceValue(value: unknown, from: unknown, to: unknown): unknown {
+  if (value === from) return to;
+
+  if (Array.isArray(value)) {
+    const next = value.map(item => replaceValue(item, from, to));
+    return next.some((item, index) => item !== value[index]) ? next : value;
+  }
+
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    let changed = false;
+    const next: Record<string, unknown> = {};
+    for (const [name, item] of Object.entries(value)) {
+      next[name] = replaceValue(item, from, to);
+      changed ||= next[name] !== item;
+    }
+    return changed ? next : value;
+  }
+
+  return value;
+}
+
+function settledPromise<T>(value: T): Promise<T> {
+  const promise: TrackedPromise<T> = Promise.resolve(value);
+  promise.status = 'fulfilled';
+  promise.value = value;
+  return promise;
+}
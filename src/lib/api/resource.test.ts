@@ -0,0 +1,61 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { HTTPError } from '../error-handling';
+import { DataManagementAPI } from './data-management';
+import { invalidateResource, preloadResource, resource } from './resource';
+import { createMockTransport, type MockHandler } from './transport';
+
+function itemsClient(handler: MockHandler) {
+  return new DataManagementAPI({ transport: createMockTransport({ 'GET /api/items': handler }), retry: false });
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('resource', () => {
+  it('returns the same promise per endpoint and params', async () => {
+    const handler = vi.fn<MockHandler>(() => ({ body: [{ id: 1 }] }));
+    const client = itemsClient(handler);
+
+    const first = resource('/items', { client, params: { page: 1 } });
+    expect(resource('/items', { client, params: { page: 1 } })).toBe(first);
+    expect(resource('/items', { client, params: { page: 2 } })).not.toBe(first);
+
+    expect(await first).toEqual([{ id: 1 }]);
+    expect(resource('/items', { client, params: { page: 1 } })).toBe(first);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps a failed promise for use() until it is invalidated, then refetches', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const handler = vi.fn<MockHandler>()
+      .mockReturnValueOnce({ status: 500, body: { message: 'Database unavailable' } })
+      .mockReturnValue({ body: [{ id: 1 }] });
+    const client = itemsClient(handler);
+
+    const failed = resource('/items', { client });
+    await expect(failed).rejects.toBeInstanceOf(HTTPError);
+    // Re-rendering the failed component must not start another request
+    expect(resource('/items', { client })).toBe(failed);
+
+    invalidateResource('/items', { client });
+    const retried = resource('/items', { client });
+
+    expect(retried).not.toBe(failed);
+    expect(await retried).toEqual([{ id: 1 }]);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('preloadResource', () => {
+  it('starts the request that resource() later reads, and swallows its errors', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const handler = vi.fn<MockHandler>(() => ({ status: 503, body: { message: 'Down' } }));
+    const client = itemsClient(handler);
+
+    await expect(preloadResource('/items', { client })).resolves.toBeUndefined();
+
+    await expect(resource('/items', { client })).rejects.toMatchObject({ status: 503 });
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+});
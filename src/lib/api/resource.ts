@@ -0,0 +1,39 @@
+// Suspense resources for React 19's use()
+import type { QueryParams } from '../types';
+import { DataManagementAPI, dataClient } from './data-management';
+import { QueryCache } from './query-cache';
+
+export interface ResourceOptions {
+  params?: QueryParams;
+  tags?: string[];
+  client?: DataManagementAPI;
+}
+
+/**
+ * Stable promise for an endpoint, meant to be read with `use()`:
+ *
+ *   const user = use(resource<User>('/users/1'));
+ *
+ * Failures reject with an APIError, which `use()` throws into the
+ * nearest APIErrorBoundary.
+ */
+export function resource<T>(endpoint: string, options: ResourceOptions = {}): Promise<T> {
+  const { client = dataClient, ...rest } = options;
+  return client.resource<T>(endpoint, rest);
+}
+
+/**
+ * Start loading a resource ahead of render, e.g. from a route loader.
+ * Errors are left for the component's `use()` call to surface.
+ */
+export function preloadResource(endpoint: string, options: ResourceOptions = {}): Promise<void> {
+  return resource(endpoint, options).then(() => undefined, () => undefined);
+}
+
+/**
+ * Drop a resource's cached promise so the next read refetches
+ */
+export function invalidateResource(endpoint: string, options: Omit<ResourceOptions, 'tags'> = {}): void {
+  const { client = dataClient, params } = options;
+  client.queryCache.invalidate(QueryCache.key(endpoint, params));
+}
@@ -0,0 +1,182 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { TransportRequest } from '../types';
+import { ErrorHandler } from '../error-handling';
+import { DataManagementAPI } from './data-management';
+import { getRetryDelay, parseRetryAfter, resolveRetryPolicy, waitForRetry } from './retry';
+
+// Replies with `statuses` in turn (the last one repeats) and records each request
+function sequenceTransport(...statuses: number[]) {
+  const requests: TransportRequest[] = [];
+  const transport = async (request: TransportRequest) => {
+    requests.push(request);
+    const status = statuses[Math.min(requests.length - 1, statuses.length - 1)];
+    return new Response(JSON.stringify({ ok: status < 400 }), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  };
+  return { requests, transport };
+}
+
+const fastRetry = { baseDelay: 0, jitter: false };
+
+describe('resolveRetryPolicy', () => {
+  it('retries up to three attempts without idempotency keys by default', () => {
+    const policy = resolveRetryPolicy();
+    expect(policy.maxAttempts).toBe(3);
+    expect(policy.idempotencyKey).toBe(false);
+  });
+
+  it('disables retries when either level is false', () => {
+    expect(resolveRetryPolicy(false, { maxAttempts: 5 }).maxAttempts).toBe(1);
+    expect(resolveRetryPolicy({ maxAttempts: 5 }, false).maxAttempts).toBe(1);
+  });
+
+  it('lets per-call options override the global policy', () => {
+    expect(resolveRetryPolicy({ maxAttempts: 5 }, { maxAttempts: 2 }).maxAttempts).toBe(2);
+  });
+});
+
+describe('getRetryDelay', () => {
+  const policy = resolveRetryPolicy({ baseDelay: 100, factor: 2, maxDelay: 1000, jitter: false });
+
+  it('backs off exponentially up to maxDelay', () => {
+    expect(getRetryDelay(1, policy)).toBe(100);
+    expect(getRetryDelay(3, policy)).toBe(400);
+    expect(getRetryDelay(10, policy)).toBe(1000);
+  });
+
+  it('prefers Retry-After, capped at maxDelay', () => {
+    expect(getRetryDelay(1, policy, 250)).toBe(250);
+    expect(getRetryDelay(1, policy, 60_000)).toBe(1000);
+  });
+
+  it('keeps jittered delays within the backoff', () => {
+    const jittered = resolveRetryPolicy({ baseDelay: 100, jitter: true });
+    for (let i = 0; i < 20; i++) {
+      const delay = getRetryDelay(2, jittered);
+      expect(delay).toBeGreaterThanOrEqual(0);
+      expect(delay).toBeLessThanOrEqual(200);
+    }
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads delta seconds and HTTP dates', () => {
+    expect(parseRetryAfter('2')).toBe(2000);
+    expect(parseRetryAfter(new Date(Date.now() + 5000).toUTCString())).toBeGreaterThan(3000);
+    expect(parseRetryAfter(null)).toBeNull();
+    expect(parseRetryAfter('soon')).toBeNull();
+  });
+});
+
+describe('waitForRetry', () => {
+  it('removes its abort listener once the wait is over', async () => {
+    const { signal } = new AbortController();
+    const add = vi.spyOn(signal, 'addEventListener');
+    const remove = vi.spyOn(signal, 'removeEventListener');
+
+    await waitForRetry(1, signal);
+
+    expect(remove).toHaveBeenCalledWith('abort', add.mock.calls[0][1]);
+  });
+});
+
+describe('DataManagementAPI.request retries', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('retries idempotent requests on retryable statuses', async () => {
+    const { requests, transport } = sequenceTransport(503, 503, 200);
+    const client = new DataManagementAPI({ transport, retry: fastRetry });
+
+    const response = await client.request('/items');
+
+    expect(response.status).toBe(200);
+    expect(requests).toHaveLength(3);
+  });
+
+  it('tells ErrorHandler listeners about each retry without logging it', async () => {
+    const consoleError = vi.spyOn(console, 'error');
+    const listener = vi.fn();
+    const removeListener = ErrorHandler.addListener(listener);
+    const { transport } = sequenceTransport(503, 200);
+    const client = new DataManagementAPI({ transport, retry: fastRetry });
+
+    try {
+      await client.request('/items');
+    } finally {
+      removeListener();
+    }
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][0]).toMatchObject({
+      code: 'RETRY_ATTEMPT',
+      details: { endpoint: '/items', method: 'GET', attempt: 1, maxAttempts: 3 },
+    });
+    expect(consoleError).not.toHaveBeenCalled();
+  });
+
+  it('gives up after maxAttempts', async () => {
+    const { requests, transport } = sequenceTransport(503);
+    const client = new DataManagementAPI({ transport, retry: { ...fastRetry, maxAttempts: 2 } });
+
+    await expect(client.request('/items')).rejects.toMatchObject({ details: { status: 503 } });
+    expect(requests).toHaveLength(2);
+  });
+
+  it('does not retry statuses outside retryOn', async () => {
+    const { requests, transport } = sequenceTransport(400, 200);
+    const client = new DataManagementAPI({ transport, retry: fastRetry });
+
+    await expect(client.request('/items')).rejects.toBeDefined();
+    expect(requests).toHaveLength(1);
+  });
+
+  it('sends a POST once, without an Idempotency-Key, by default', async () => {
+    const { requests, transport } = sequenceTransport(503, 200);
+    const client = new DataManagementAPI({ transport, retry: fastRetry });
+
+    await expect(client.request('/items', { method: 'POST', body: '{}' })).rejects.toBeDefined();
+    expect(requests).toHaveLength(1);
+    expect(requests[0].headers['Idempotency-Key']).toBeUndefined();
+  });
+
+  it('retries an opted-in POST with the same Idempotency-Key on every attempt', async () => {
+    const { requests, transport } = sequenceTransport(503, 502, 200);
+    const client = new DataManagementAPI({ transport, retry: fastRetry });
+
+    await client.request('/items', { method: 'POST', body: '{}', retry: { idempotencyKey: true } });
+
+    expect(requests).toHaveLength(3);
+    const keys = new Set(requests.map(request => request.headers['Idempotency-Key']));
+    expect(keys.size).toBe(1);
+    expect([...keys][0]).toEqual(expect.any(String));
+  });
+
+  it('keeps an Idempotency-Key supplied by the caller', async () => {
+    const { requests, transport } = sequenceTransport(503, 200);
+    const client = new DataManagementAPI({ transport, retry: fastRetry });
+
+    await client.request('/items', {
+      method: 'POST',
+      headers: { 'Idempotency-Key': 'given' },
+      retry: { idempotencyKey: true },
+    });
+
+    expect(requests.map(request => request.headers['Idempotency-Key'])).toEqual(['given', 'given']);
+  });
+
+  it('stops waiting for a retry when the signal aborts', async () => {
+    const { requests, transport } = sequenceTransport(503);
+    const client = new DataManagementAPI({ transport, retry: { baseDelay: 10_000, jitter: false } });
+    const controller = new AbortController();
+
+    const pending = client.request('/items', { signal: controller.signal });
+    setTimeout(() => controller.abort(), 10);
+
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+    expect(requests).toHaveLength(1);
+  });
+});
@@ -0,0 +1,99 @@
+// Retry policy helpers for DataManagementAPI
+import type { HttpMethod, RetryPolicy } from '../types';
+import { APIError, NetworkError } from '../error-handling';
+
+// Only idempotent methods are retried unless a call opts in with `idempotencyKey`
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 3,
+  baseDelay: 300,
+  maxDelay: 10_000,
+  factor: 2,
+  jitter: true,
+  retryOn: [408, 425, 429, 500, 502, 503, 504],
+  respectRetryAfter: true,
+  idempotencyKey: false,
+};
+
+const IDEMPOTENT_METHODS: ReadonlySet<HttpMethod> = new Set(['GET', 'PUT', 'DELETE']);
+
+/**
+ * Merge global and per-call policies; `false` at either level disables retries
+ */
+export function resolveRetryPolicy(
+  global?: RetryPolicy | false,
+  perCall?: RetryPolicy | false
+): Required<RetryPolicy> {
+  if (global === false || perCall === false) {
+    return { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 };
+  }
+  return { ...DEFAULT_RETRY_POLICY, ...global, ...perCall };
+}
+
+export function isIdempotentMethod(method: HttpMethod): boolean {
+  return IDEMPOTENT_METHODS.has(method);
+}
+
+/**
+ * Network failures and the policy's statuses are retryable; aborts never are
+ */
+export function isRetryableError(error: unknown, policy: Required<RetryPolicy>): boolean {
+  if (error instanceof NetworkError) {
+    return true;
+  }
+  if (error instanceof APIError) {
+    const status = error.details && typeof error.details === 'object' ? error.details.status : undefined;
+    return typeof status === 'number' && policy.retryOn.includes(status);
+  }
+  return error instanceof TypeError;
+}
+
+/**
+ * Exponential backoff with optional full jitter, capped at `maxDelay`
+ */
+export function getRetryDelay(
+  attempt: number,
+  policy: Required<RetryPolicy>,
+  retryAfter?: number | null
+): number {
+  if (policy.respectRetryAfter && retryAfter != null) {
+    return Math.min(retryAfter, policy.maxDelay);
+  }
+
+  const backoff = Math.min(policy.baseDelay * policy.factor ** (attempt - 1), policy.maxDelay);
+  return policy.jitter ? Math.round(Math.random() * backoff) : backoff;
+}
+
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+export function waitForRetry(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('The request was aborted', 'AbortError'));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('The request was aborted', 'AbortError'));
+    };
+    // Removed once the wait is over so long-lived signals do not collect listeners
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
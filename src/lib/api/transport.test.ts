@@ -0,0 +1,183 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { TransportRequest } from '../types';
+import { createMockTransport, xhrTransport } from './transport';
+
+// Records what xhrTransport sends; tests answer through `respond` or `fail`
+class FakeXHR extends EventTarget {
+  static last: FakeXHR;
+
+  upload = new EventTarget();
+  method = '';
+  url = '';
+  headers: Record<string, string> = {};
+  body: unknown;
+  status = 0;
+  statusText = '';
+  response: unknown = null;
+  aborted = false;
+  private rawHeaders = '';
+
+  constructor() {
+    super();
+    FakeXHR.last = this;
+  }
+
+  open(method: string, url: string) {
+    this.method = method;
+    this.url = url;
+  }
+
+  setRequestHeader(name: string, value: string) {
+    this.headers[name] = value;
+  }
+
+  getAllResponseHeaders() {
+    return this.rawHeaders;
+  }
+
+  send(body: unknown) {
+    this.body = body;
+  }
+
+  abort() {
+    this.aborted = true;
+    this.dispatchEvent(new Event('abort'));
+  }
+
+  respond(status: number, body: string | null, headers = '') {
+    this.status = status;
+    this.statusText = status === 200 ? 'OK' : '';
+    this.response = body;
+    this.rawHeaders = headers;
+    this.dispatchEvent(new Event('load'));
+  }
+
+  fail() {
+    this.dispatchEvent(new Event('error'));
+  }
+}
+
+function request(overrides: Partial<TransportRequest> = {}): TransportRequest {
+  return { url: '/api/items', method: 'GET', headers: {}, ...overrides };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('xhrTransport', () => {
+  it('sends the request and builds a Response from the reply', async () => {
+    vi.stubGlobal('XMLHttpRequest', FakeXHR);
+
+    const pending = xhrTransport(request({
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{"title":"Draft"}',
+    }));
+    const xhr = FakeXHR.last;
+    xhr.respond(201, '{"id":1}', 'Content-Type: application/json\r\nX-Request-Id: abc\r\n');
+    const response = await pending;
+
+    expect(xhr).toMatchObject({
+      method: 'POST',
+      url: '/api/items',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{"title":"Draft"}',
+    });
+    expect(response.status).toBe(201);
+    expect(response.headers.get('X-Request-Id')).toBe('abc');
+    expect(await response.json()).toEqual({ id: 1 });
+  });
+
+  it('reports upload progress for computable lengths', async () => {
+    vi.stubGlobal('XMLHttpRequest', FakeXHR);
+    const onUploadProgress = vi.fn();
+
+    const pending = xhrTransport(request({ method: 'POST', body: new FormData(), onUploadProgress }));
+    const xhr = FakeXHR.last;
+    xhr.upload.dispatchEvent(new ProgressEvent('progress', { lengthComputable: false, loaded: 10 }));
+    xhr.upload.dispatchEvent(new ProgressEvent('progress', { lengthComputable: true, loaded: 25, total: 200 }));
+    xhr.upload.dispatchEvent(new ProgressEvent('progress', { lengthComputable: true, loaded: 200, total: 200 }));
+    xhr.respond(204, null);
+
+    expect((await pending).status).toBe(204);
+    expect(onUploadProgress.mock.calls).toEqual([
+      [{ loaded: 25, total: 200, percent: 13 }],
+      [{ loaded: 200, total: 200, percent: 100 }],
+    ]);
+  });
+
+  it('rejects like fetch on network errors and aborts', async () => {
+    vi.stubGlobal('XMLHttpRequest', FakeXHR);
+
+    const failed = xhrTransport(request());
+    FakeXHR.last.fail();
+    await expect(failed).rejects.toThrow(TypeError);
+
+    const controller = new AbortController();
+    const aborted = xhrTransport(request({ signal: controller.signal }));
+    controller.abort();
+    await expect(aborted).rejects.toMatchObject({ name: 'AbortError' });
+    expect(FakeXHR.last.aborted).toBe(true);
+  });
+});
+
+describe('createMockTransport', () => {
+  it('routes by method and path, with wildcards for sub-paths', async () => {
+    const transport = createMockTransport({
+      'GET /api/items': () => ({ body: [{ id: 1 }] }),
+      'DELETE /api/items/*': ({ path }) => ({ status: 204, headers: { 'X-Deleted': path } }),
+    });
+
+    const list = await transport(request({ url: '/api/items?page=2' }));
+    const removed = await transport(request({ url: '/api/items/1', method: 'DELETE' }));
+
+    expect(list.headers.get('Content-Type')).toBe('application/json');
+    expect(await list.json()).toEqual([{ id: 1 }]);
+    expect(removed.status).toBe(204);
+    expect(removed.headers.get('X-Deleted')).toBe('/api/items/1');
+    expect(removed.body).toBeNull();
+  });
+
+  it('parses JSON request bodies and answers strings as text', async () => {
+    const transport = createMockTransport({
+      'POST /api/echo': ({ json }) => ({ body: `Hello, ${(json() as { name: string }).name}` }),
+    });
+
+    const response = await transport(request({ url: '/api/echo', method: 'POST', body: '{"name":"Ada"}' }));
+
+    expect(response.headers.get('Content-Type')).toBe('text/plain');
+    expect(await response.text()).toBe('Hello, Ada');
+  });
+
+  it('answers unknown routes with 404', async () => {
+    const response = await createMockTransport({})(request({ url: '/api/missing', method: 'PATCH' }));
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ message: 'No mock route for PATCH /api/missing' });
+  });
+
+  it('delays replies and stops waiting when aborted, also before the delay starts', async () => {
+    const transport = createMockTransport({ 'GET /api/slow': () => ({ body: 'late', delay: 1_000 }) });
+    const controller = new AbortController();
+
+    const pending = transport(request({ url: '/api/slow', signal: controller.signal }));
+    setTimeout(() => controller.abort(), 5);
+
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+    await expect(transport(request({ url: '/api/slow', signal: controller.signal }))).rejects.toMatchObject({
+      name: 'AbortError',
+    });
+  });
+
+  it('removes its abort listener once a delayed reply is sent', async () => {
+    const transport = createMockTransport({ 'GET /api/slow': () => ({ body: 'late', delay: 1 }) });
+    const { signal } = new AbortController();
+    const add = vi.spyOn(signal, 'addEventListener');
+    const remove = vi.spyOn(signal, 'removeEventListener');
+
+    await transport(request({ url: '/api/slow', signal }));
+
+    expect(remove).toHaveBeenCalledWith('abort', add.mock.calls[0][1]);
+  });
+});
@@ -0,0 +1,172 @@
+// Swappable HTTP transports for DataManagementAPI
+import type { HttpMethod, Transport, TransportRequest } from '../types';
+
+/**
+ * Default transport backed by the Fetch API
+ */
+export const fetchTransport: Transport = (request) => {
+  return fetch(request.url, {
+    method: request.method,
+    headers: request.headers,
+    body: request.body,
+    signal: request.signal,
+  });
+};
+
+/**
+ * XMLHttpRequest transport with upload progress reporting
+ */
+export const xhrTransport: Transport = (request) => {
+  return new Promise<Response>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open(request.method, request.url);
+
+    Object.entries(request.headers).forEach(([name, value]) => {
+      xhr.setRequestHeader(name, value);
+    });
+
+    if (request.onUploadProgress) {
+      const onUploadProgress = request.onUploadProgress;
+      xhr.upload.addEventListener('progress', (event) => {
+        if (event.lengthComputable) {
+          onUploadProgress({
+            loaded: event.loaded,
+            total: event.total,
+            percent: Math.round((event.loaded / event.total) * 100),
+          });
+        }
+      });
+    }
+
+    xhr.addEventListener('load', () => {
+      resolve(new Response(hasNullBody(xhr.status) ? null : xhr.response, {
+        status: xhr.status,
+        statusText: xhr.statusText,
+        headers: parseHeaders(xhr.getAllResponseHeaders()),
+      }));
+    });
+
+    xhr.addEventListener('error', () => {
+      reject(new TypeError('Failed to fetch'));
+    });
+
+    xhr.addEventListener('abort', () => {
+      reject(new DOMException('The request was aborted', 'AbortError'));
+    });
+
+    if (request.signal) {
+      if (request.signal.aborted) {
+        xhr.abort();
+        return;
+      }
+      request.signal.addEventListener('abort', () => xhr.abort(), { once: true });
+    }
+
+    xhr.send((request.body ?? null) as XMLHttpRequestBodyInit | null);
+  });
+};
+
+/**
+ * In-memory mock transport for demos and tests
+ */
+export interface MockResponse {
+  status?: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+  delay?: number;
+}
+
+export type MockHandler = (
+  request: TransportRequest & { path: string; json: () => unknown }
+) => MockResponse | Promise<MockResponse>;
+
+/**
+ * Routes are keyed by method and pathname, e.g. `'POST /api/items'`.
+ * A trailing `/*` matches any sub-path (`'DELETE /api/items/*'`).
+ */
+export function createMockTransport(routes: Record<string, MockHandler>): Transport {
+  return async (request) => {
+    const path = new URL(request.url, 'http://localhost').pathname;
+    const handler = findMockHandler(routes, request.method, path);
+
+    const mock: MockResponse = handler
+      ? await handler({
+          ...request,
+          path,
+          json: () => typeof request.body === 'string' ? JSON.parse(request.body) : null,
+        })
+      : { status: 404, body: { message: `No mock route for ${request.method} ${path}` } };
+
+    if (mock.delay) {
+      await abortableDelay(mock.delay, request.signal);
+    }
+
+    const status = mock.status ?? 200;
+    const isText = typeof mock.body === 'string';
+
+    return new Response(
+      hasNullBody(status) || mock.body === undefined
+        ? null
+        : isText ? mock.body as string : JSON.stringify(mock.body),
+      {
+        status,
+        headers: {
+          'Content-Type': isText ? 'text/plain' : 'application/json',
+          ...mock.headers,
+        },
+      }
+    );
+  };
+}
+
+function findMockHandler(
+  routes: Record<string, MockHandler>,
+  method: HttpMethod,
+  path: string
+): MockHandler | undefined {
+  const exact = routes[`${method} ${path}`];
+  if (exact) return exact;
+
+  const wildcard = Object.keys(routes).find((key) => {
+    const [routeMethod, routePath] = key.split(' ');
+    return routeMethod === method
+      && routePath.endsWith('/*')
+      && path.startsWith(routePath.slice(0, -1));
+  });
+
+  return wildcard ? routes[wildcard] : undefined;
+}
+
+function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('The request was aborted', 'AbortError'));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('The request was aborted', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function hasNullBody(status: number): boolean {
+  return status === 204 || status === 205 || status === 304;
+}
+
+function parseHeaders(raw: string): Headers {
+  const headers = new Headers();
+  raw.trim().split(/[\r\n]+/).forEach((line) => {
+    const index = line.indexOf(':');
+    if (index > 0) {
+      headers.append(line.slice(0, index).trim(), line.slice(index + 1).trim());
+    }
+  });
+  return headers;
+}
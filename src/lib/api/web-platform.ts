@@ -1,12 +1,14 @@
 // Modern Web Platform APIs
 import { ViewTransitionOptions, IntersectionObserverOptions, ResizeObserverEntry } from '../types';
+import { FeatureDetection } from '../feature-detection';
+import { HeadAPI } from './head';
 
 /**
  * View Transitions API for smooth page navigation
  */
 export class ViewTransitionsAPI {
   static isSupported(): boolean {
-    return 'startViewTransition' in document;
+    return FeatureDetection.checkWebAPI('viewTransitions');
   }
 
   static async transition(
@@ -174,7 +176,7 @@ export class ResizeAPI {
  */
 export class NavigationAPI {
   static isSupported(): boolean {
-    return 'navigation' in window;
+    return FeatureDetection.checkWebAPI('navigationAPI');
   }
 
   static navigate(
@@ -245,7 +247,7 @@ export class NavigationAPI {
  */
 export class ShareAPI {
   static isSupported(): boolean {
-    return 'share' in navigator;
+    return FeatureDetection.checkWebAPI('webShare');
   }
 
   static canShare(data?: ShareData): boolean {
@@ -258,12 +260,24 @@ export class ShareAPI {
     return true;
   }
 
-  static async share(data: {
+  /**
+   * Share the current page. Missing fields come from its head metadata:
+   * title, description as text, and the canonical URL.
+   */
+  static async share(shared: {
     title?: string;
     text?: string;
     url?: string;
     files?: File[];
-  }): Promise<boolean> {
+  } = {}): Promise<boolean> {
+    const page = HeadAPI.current();
+    const data = {
+      ...shared,
+      title: shared.title ?? page.title,
+      text: shared.text ?? page.description,
+      url: shared.url ?? page.url,
+    };
+
     if (!this.isSupported()) {
       // Fallback to clipboard or custom share UI
       await this.fallbackShare(data);
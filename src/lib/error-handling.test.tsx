@@ -0,0 +1,468 @@
+import { act } from 'react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, render, settle } from '../test/render';
+import { WorkerAPI } from './api/performance';
+import { Messages } from './messages';
+import {
+  APIError,
+  APIErrorBoundary,
+  ErrorHandler,
+  HTTPError,
+  NetworkError,
+  PermissionError,
+  Validator,
+  serializeError,
+  type ValidationRules,
+} from './error-handling';
+
+function form(entries: Record<string, string | File | (string | File)[]>): FormData {
+  const formData = new FormData();
+  Object.entries(entries).forEach(([name, value]) => {
+    (Array.isArray(value) ? value : [value]).forEach(item => formData.append(name, item));
+  });
+  return formData;
+}
+
+afterEach(() => {
+  cleanup();
+  vi.restoreAllMocks();
+});
+
+describe('Validator.validateFormData', () => {
+  it('collects every message per field and the first one in errors', () => {
+    const { isValid, errors, fieldErrors } = Validator.validateFormData(form({ email: 'ab' }), {
+      email: { type: 'email', minLength: 5 },
+      name: { required: true },
+    });
+
+    expect(isValid).toBe(false);
+    expect(fieldErrors.email).toEqual(['email must be at least 5 characters', 'email must be a valid email']);
+    expect(errors.email).toBe('email must be at least 5 characters');
+    expect(errors.name).toBe('name is required');
+  });
+
+  it('compares fields for matches and custom cross-field rules', () => {
+    const rules: ValidationRules = {
+      confirm: { matches: 'password' },
+      end: {
+        custom: (value, formData) => String(value) < String(formData.get('start')) ? 'End must be after start' : null,
+      },
+    };
+
+    const result = Validator.validateFormData(
+      form({ password: 'secret', confirm: 'other', start: '2024-02-01', end: '2024-01-01' }),
+      rules
+    );
+
+    expect(result.errors).toEqual({
+      confirm: 'confirm must match password',
+      end: 'End must be after start',
+    });
+  });
+
+  it('skips rules whose `when` is false', () => {
+    const rules: ValidationRules = {
+      company: { required: true, when: formData => formData.get('type') === 'business' },
+    };
+
+    expect(Validator.validateFormData(form({ type: 'personal' }), rules).isValid).toBe(true);
+    expect(Validator.validateFormData(form({ type: 'business' }), rules).isValid).toBe(false);
+  });
+
+  it('checks file size, type and count', () => {
+    const image = new File(['x'.repeat(2048)], 'photo.png', { type: 'image/png' });
+    const text = new File(['hello'], 'notes.txt', { type: 'text/plain' });
+
+    const { fieldErrors } = Validator.validateFormData(form({ files: [image, text] }), {
+      files: { multiple: true, maxItems: 1, maxSize: 1024, accept: ['image/*', '.pdf'] },
+    });
+
+    expect(fieldErrors.files).toEqual([
+      'files allows at most 1 selection',
+      'files must be smaller than 1 KB',
+      'files must be one of: image/*, .pdf',
+    ]);
+  });
+});
+
+describe('Validator.validateFormDataAsync', () => {
+  it('runs async validators only for fields that passed the sync checks', async () => {
+    const asyncValidator = vi.fn(async () => 'Already taken');
+
+    const result = await Validator.validateFormDataAsync(form({ user: 'ab', handle: 'taken' }), {
+      user: { minLength: 3, asyncValidator },
+      handle: { asyncValidator },
+    });
+
+    expect(asyncValidator).toHaveBeenCalledTimes(1);
+    expect(result.errors).toEqual({ user: 'user must be at least 3 characters', handle: 'Already taken' });
+  });
+
+  it('turns a failing validator into a field error and reports it', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const listener = vi.fn();
+    const removeListener = ErrorHandler.addListener(listener);
+
+    const result = await Validator.validateFormDataAsync(form({ handle: 'ada', email: 'ada@example.com' }), {
+      handle: { asyncValidator: async () => { throw new Error('lookup failed'); } },
+      email: { asyncValidator: async () => null },
+    });
+    removeListener();
+
+    expect(result.errors).toEqual({ handle: 'handle could not be checked, please try again' });
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ message: 'lookup failed' }));
+  });
+
+  it('rejects with the AbortError when the check is cancelled', async () => {
+    const listener = vi.fn();
+    const removeListener = ErrorHandler.addListener(listener);
+    const controller = new AbortController();
+
+    const pending = Validator.validateFormDataAsync(form({ handle: 'ada' }), {
+      handle: {
+        asyncValidator: (_value, { signal }) => new Promise((_resolve, reject) => {
+          signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+        }),
+      },
+    }, controller.signal);
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+    removeListener();
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
+
+describe('Validator.validateObject', () => {
+  it('keys nested errors by path', () => {
+    const result = Validator.validateObject({ items: [{ title: 'ok' }, { title: 3 }] }, {
+      items: { type: 'array', items: { type: 'object', schema: { title: { type: 'string' } } } },
+    });
+
+    expect(Object.keys(result.errors)).toEqual(['items[1].title']);
+  });
+});
+
+describe('ErrorHandler.normalize', () => {
+  it('maps aborts to REQUEST_ABORTED without notifying listeners', () => {
+    const listener = vi.fn();
+    const removeListener = ErrorHandler.addListener(listener);
+
+    const error = ErrorHandler.normalize(Object.assign(new Error('Aborted'), { name: 'AbortError' }));
+    removeListener();
+
+    expect(error).toBeInstanceOf(APIError);
+    expect(error.code).toBe('REQUEST_ABORTED');
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
+
+describe('ErrorHandler.handle', () => {
+  it('logs errors on the server as well as in the browser', () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.stubGlobal('window', undefined);
+
+    try {
+      ErrorHandler.handle(new Error('Loader failed'));
+    } finally {
+      vi.unstubAllGlobals();
+    }
+
+    expect(consoleError).toHaveBeenCalledWith('API Error:', expect.objectContaining({ message: 'Loader failed' }));
+  });
+});
+
+describe('APIError serialization', () => {
+  it('survives structuredClone with its class, HTTP fields and cause chain', () => {
+    const network = new TypeError('Failed to fetch');
+    const httpError = new HTTPError('Forbidden', {
+      status: 403,
+      statusText: 'Forbidden',
+      url: '/api/items/1',
+      method: 'DELETE',
+      headers: { 'content-type': 'application/json' },
+      body: { message: 'Forbidden', owner: 'someone-else' },
+    }, { cause: network });
+    const error = new PermissionError('You cannot delete this item', httpError.details, { cause: httpError });
+
+    const revived = APIError.fromJSON(structuredClone(serializeError(error)));
+
+    expect(revived).toBeInstanceOf(PermissionError);
+    expect(revived).toMatchObject({ code: 'PERMISSION_ERROR', message: 'You cannot delete this item' });
+    expect(revived.details).toMatchObject({ status: 403, url: '/api/items/1', method: 'DELETE' });
+
+    const cause = revived.cause as HTTPError;
+    expect(cause).toBeInstanceOf(HTTPError);
+    expect(cause).toMatchObject({
+      status: 403,
+      statusText: 'Forbidden',
+      url: '/api/items/1',
+      method: 'DELETE',
+      headers: { 'content-type': 'application/json' },
+      body: { message: 'Forbidden', owner: 'someone-else' },
+    });
+
+    expect(cause.cause).toBeInstanceOf(Error);
+    expect(cause.cause).toMatchObject({ name: 'TypeError', message: 'Failed to fetch' });
+  });
+
+  it('serializes through JSON.stringify and normalizes posted errors back', () => {
+    const error = new HTTPError('Server error', { status: 500, url: '/api/items', method: 'GET', body: 'Oops' });
+
+    const revived = ErrorHandler.normalize(JSON.parse(JSON.stringify(error)));
+
+    expect(revived).toBeInstanceOf(HTTPError);
+    expect(revived).toMatchObject({ status: 500, url: '/api/items', method: 'GET', body: 'Oops' });
+  });
+});
+
+describe('APIErrorBoundary', () => {
+  // Throws `error` until `state.failing` is switched off
+  function flaky(error: Error) {
+    const state = { failing: true };
+    function Child() {
+      if (state.failing) throw error;
+      return <p>Loaded</p>;
+    }
+    return { state, Child };
+  }
+
+  function retryButton(container: HTMLElement): HTMLButtonElement {
+    return container.querySelector('.error-boundary__actions button')!;
+  }
+
+  function silenceErrors() {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  }
+
+  it('shows the fallback and resets once a reset key changes', async () => {
+    silenceErrors();
+    const { state, Child } = flaky(new APIError('Broken', 'BROKEN'));
+
+    const { container, rerender } = await render(
+      <APIErrorBoundary resetKeys={['/a']} fallback={error => <p>Failed: {error.code}</p>}>
+        <Child />
+      </APIErrorBoundary>
+    );
+    expect(container.textContent).toBe('Failed: BROKEN');
+
+    // Same keys keep the fallback
+    state.failing = false;
+    await rerender(
+      <APIErrorBoundary resetKeys={['/a']} fallback={error => <p>Failed: {error.code}</p>}>
+        <Child />
+      </APIErrorBoundary>
+    );
+    expect(container.textContent).toBe('Failed: BROKEN');
+
+    await rerender(
+      <APIErrorBoundary resetKeys={['/b']} fallback={error => <p>Failed: {error.code}</p>}>
+        <Child />
+      </APIErrorBoundary>
+    );
+    expect(container.textContent).toBe('Loaded');
+  });
+
+  it('runs onRetry before rendering the children again', async () => {
+    silenceErrors();
+    const { state, Child } = flaky(new APIError('Broken', 'BROKEN'));
+    const onRetry = vi.fn(async () => {
+      state.failing = false;
+    });
+    const onReset = vi.fn();
+
+    const { container } = await render(
+      <APIErrorBoundary onRetry={onRetry} onReset={onReset}>
+        <Child />
+      </APIErrorBoundary>
+    );
+    await act(async () => retryButton(container).click());
+
+    expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ code: 'BROKEN' }));
+    expect(onReset).toHaveBeenCalledTimes(1);
+    expect(container.textContent).toBe('Loaded');
+  });
+
+  it('keeps the fallback with the new error when onRetry fails', async () => {
+    silenceErrors();
+    const { Child } = flaky(new APIError('Broken', 'BROKEN'));
+    const onRetry = vi.fn(async () => {
+      throw new APIError('Still broken', 'STILL_BROKEN');
+    });
+
+    const { container } = await render(
+      <APIErrorBoundary onRetry={onRetry} fallback={(error, retry) => <button onClick={retry}>{error.code}</button>}>
+        <Child />
+      </APIErrorBoundary>
+    );
+    await act(async () => container.querySelector('button')!.click());
+
+    expect(container.textContent).toBe('STILL_BROKEN');
+  });
+
+  it('retries network errors on its own when the connection comes back', async () => {
+    silenceErrors();
+    const { state, Child } = flaky(new NetworkError());
+    const onRetry = vi.fn(() => {
+      state.failing = false;
+    });
+
+    const { container } = await render(
+      <APIErrorBoundary onRetry={onRetry}>
+        <Child />
+      </APIErrorBoundary>
+    );
+    expect(container.querySelector('.error-boundary--offline')).not.toBeNull();
+
+    await act(async () => {
+      window.dispatchEvent(new Event('online'));
+    });
+    await settle(0);
+
+    expect(onRetry).toHaveBeenCalledTimes(1);
+    expect(container.textContent).toBe('Loaded');
+  });
+
+  it('shows an error caught elsewhere without reporting it again', async () => {
+    const listener = vi.fn();
+    const removeListener = ErrorHandler.addListener(listener);
+    const onReset = vi.fn();
+
+    const { container } = await render(
+      <APIErrorBoundary error={new TypeError('Failed to fetch')} onReset={onReset} showDetails={false} />
+    );
+    removeListener();
+
+    expect(container.querySelector('.error-boundary--offline')).not.toBeNull();
+    expect(listener).not.toHaveBeenCalled();
+
+    await act(async () => retryButton(container).click());
+    expect(onReset).toHaveBeenCalledTimes(1);
+  });
+
+  it('labels the error details from the message catalog', async () => {
+    Messages.addCatalog('es', { 'boundary.code': 'Código:', 'boundary.message': 'Mensaje:' });
+    Messages.setLocale('es');
+
+    try {
+      const { container } = await render(<APIErrorBoundary error={new APIError('Roto', 'BROKEN')} showDetails />);
+      const labels = [...container.querySelectorAll('details strong')].map(label => label.textContent);
+
+      expect(labels).toEqual(['Código:', 'Mensaje:']);
+    } finally {
+      Messages.setLocale('en');
+    }
+  });
+});
+
+describe('ErrorHandler global capture', () => {
+  function spyOnHandle() {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    return vi.spyOn(ErrorHandler, 'handle');
+  }
+
+  function rejection(reason: unknown): Event {
+    return Object.assign(new Event('unhandledrejection'), { reason, promise: Promise.resolve() });
+  }
+
+  it('handles uncaught errors and unhandled rejections once each', () => {
+    const handle = spyOnHandle();
+    const stop = ErrorHandler.captureGlobalErrors();
+
+    try {
+      const error = new Error('Boom');
+      window.dispatchEvent(new ErrorEvent('error', { error, message: 'Boom', filename: 'app.js', lineno: 3, colno: 7 }));
+      window.dispatchEvent(rejection('nope'));
+    } finally {
+      stop();
+    }
+
+    expect(handle).toHaveBeenCalledTimes(2);
+    expect(handle.mock.calls[0][0]).toMatchObject({
+      code: 'UNCAUGHT_ERROR',
+      message: 'Boom',
+      details: { filename: 'app.js', lineno: 3, colno: 7 },
+    });
+    expect(handle.mock.calls[1][0]).toMatchObject({ code: 'UNHANDLED_REJECTION' });
+  });
+
+  it('skips errors that were already handled and rethrown', () => {
+    const handle = spyOnHandle();
+    const stop = ErrorHandler.captureGlobalErrors();
+
+    try {
+      const apiError = ErrorHandler.handle(new Error('Handled'));
+      window.dispatchEvent(rejection(apiError));
+    } finally {
+      stop();
+    }
+
+    expect(handle).toHaveBeenCalledTimes(1);
+  });
+
+  it('removes its listeners when the returned cleanup runs', () => {
+    const add = vi.spyOn(window, 'addEventListener');
+    const remove = vi.spyOn(window, 'removeEventListener');
+
+    const stop = ErrorHandler.captureGlobalErrors();
+    expect(ErrorHandler.captureGlobalErrors()).toBe(stop);
+    stop();
+
+    expect(add.mock.calls.map(([type]) => type)).toEqual(['error', 'unhandledrejection']);
+    expect(remove.mock.calls).toEqual(add.mock.calls);
+  });
+
+  it('reports React root errors once, with their component stack', () => {
+    const handle = spyOnHandle();
+    const { onCaughtError, onUncaughtError } = ErrorHandler.reactRootOptions();
+
+    onCaughtError!(new Error('Render failed'), { componentStack: '\n    at Widget' });
+    onUncaughtError!(new Error('Root failed'), { componentStack: '\n    at App' });
+    // Already handled by a boundary's componentDidCatch
+    const handled = ErrorHandler.handle(new Error('Seen'));
+    onCaughtError!(handled, { componentStack: '' });
+
+    expect(handle).toHaveBeenCalledTimes(3);
+    expect(handle.mock.calls[0][0]).toMatchObject({ code: 'REACT_ERROR', details: { componentStack: '\n    at Widget' } });
+    expect(handle.mock.calls[1][0]).toMatchObject({ code: 'REACT_UNCAUGHT_ERROR' });
+  });
+
+  it('reports worker errors through ErrorHandler', () => {
+    const handle = spyOnHandle();
+    const workers: FakeWorker[] = [];
+    class FakeWorker {
+      onerror?: (event: Partial<ErrorEvent>) => void;
+      onmessageerror?: () => void;
+      constructor() {
+        workers.push(this);
+      }
+      terminate() {}
+    }
+    vi.stubGlobal('Worker', FakeWorker);
+    vi.spyOn(WorkerAPI, 'isSupported').mockReturnValue(true);
+
+    try {
+      const id = WorkerAPI.create('/worker.js', { id: 'crunch' });
+      workers[0].onerror!({ message: 'Uncaught RangeError', filename: 'worker.js', lineno: 1, colno: 2 });
+      workers[0].onmessageerror!();
+      // A script that fails to load has no message
+      workers[0].onerror!({});
+      WorkerAPI.terminate(id!);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+
+    expect(handle).toHaveBeenCalledTimes(3);
+    expect(handle.mock.calls[0][0]).toMatchObject({
+      code: 'WORKER_ERROR',
+      message: 'Worker error: Uncaught RangeError',
+      details: { workerId: 'crunch', filename: 'worker.js', lineno: 1, colno: 2 },
+    });
+    expect(handle.mock.calls[1][0]).toMatchObject({
+      code: 'WORKER_ERROR',
+      message: 'Worker error: message could not be deserialized',
+      details: { workerId: 'crunch' },
+    });
+    expect(handle.mock.calls[2][0]).toMatchObject({ message: 'Worker error: failed to load or run' });
+  });
+});
@@ -1,5 +1,8 @@
 // Error Handling and Validation for Advanced APIs
 import { Component, type ErrorInfo, type ReactNode, isValidElement } from 'react';
+import type { RootOptions } from 'react-dom/client';
+import type { SerializedError } from './types';
+import { Messages } from './messages';
 
 /**
  * Type definitions for error handling
@@ -10,76 +13,275 @@ export type UnknownObject = Record<string, unknown>;
 
 /**
  * API Error Classes
+ *
+ * `cause` holds the error that was converted, so the chain down to the
+ * original TypeError or DOMException is never lost. `toJSON()` and
+ * `APIError.fromJSON()` let errors cross `postMessage` with their class,
+ * code, details and causes intact.
  */
 export class APIError extends Error {
   public code: string;
   public details?: ErrorDetails;
 
-  constructor(message: string, code: string = 'API_ERROR', details?: ErrorDetails) {
-    super(message);
+  constructor(message: string, code: string = 'API_ERROR', details?: ErrorDetails, options?: ErrorOptions) {
+    super(message, options);
     this.name = 'APIError';
     this.code = code;
     this.details = details;
   }
+
+  toJSON(): SerializedError {
+    return {
+      name: this.name,
+      code: this.code,
+      message: this.message,
+      details: toSerializable(this.details) as ErrorDetails | undefined,
+      stack: this.stack,
+      cause: this.cause === undefined ? undefined : serializeError(this.cause),
+    };
+  }
+
+  /**
+   * Rebuild an error from `toJSON()` output, as the matching subclass
+   */
+  static fromJSON(json: SerializedError): APIError {
+    const prototype = (ERROR_CLASSES[json.name] ?? APIError).prototype;
+    const error: APIError = Object.create(prototype);
+    Object.assign(error, {
+      name: json.name,
+      code: json.code ?? 'UNKNOWN_ERROR',
+      message: json.message,
+      details: json.details,
+      stack: json.stack,
+    });
+    if (json.http) {
+      Object.assign(error, json.http);
+    }
+    if (json.cause) {
+      error.cause = reviveError(json.cause);
+    }
+    return error;
+  }
 }
 
 export class NetworkError extends APIError {
-  constructor(message: string = 'Network request failed', details?: ErrorDetails) {
-    super(message, 'NETWORK_ERROR', details);
+  constructor(message: string = Messages.format('error.network'), details?: ErrorDetails, options?: ErrorOptions) {
+    super(message, 'NETWORK_ERROR', details, options);
     this.name = 'NetworkError';
   }
 }
 
 export class ValidationError extends APIError {
-  constructor(message: string = 'Validation failed', details?: ErrorDetails) {
-    super(message, 'VALIDATION_ERROR', details);
+  constructor(message: string = Messages.format('error.validation'), details?: ErrorDetails, options?: ErrorOptions) {
+    super(message, 'VALIDATION_ERROR', details, options);
     this.name = 'ValidationError';
   }
 }
 
+/**
+ * Data that does not match an endpoint's schema. Unlike other validation
+ * errors this is a client/server contract bug rather than bad user input,
+ * so it has its own code and gets reported.
+ */
+export class SchemaError extends ValidationError {
+  constructor(message: string, details?: ErrorDetails, options?: ErrorOptions) {
+    super(message, details, options);
+    this.code = 'SCHEMA_MISMATCH';
+    this.name = 'SchemaError';
+  }
+}
+
 export class PermissionError extends APIError {
-  constructor(message: string = 'Permission denied', details?: ErrorDetails) {
-    super(message, 'PERMISSION_ERROR', details);
+  constructor(message: string = Messages.format('error.permission'), details?: ErrorDetails, options?: ErrorOptions) {
+    super(message, 'PERMISSION_ERROR', details, options);
     this.name = 'PermissionError';
   }
 }
 
 export class UnsupportedFeatureError extends APIError {
-  constructor(feature: string, details?: ErrorDetails) {
-    super(`Feature not supported: ${feature}`, 'FEATURE_NOT_SUPPORTED', details);
+  constructor(feature: string, details?: ErrorDetails, options?: ErrorOptions) {
+    super(Messages.format('error.unsupported', { feature }), 'FEATURE_NOT_SUPPORTED', details, options);
     this.name = 'UnsupportedFeatureError';
   }
 }
 
+export interface HTTPErrorInit {
+  status: number;
+  statusText?: string;
+  url: string;
+  method: string;
+  headers?: Record<string, string>;
+  // Parsed JSON when possible, otherwise the raw text
+  body?: unknown;
+}
+
+/**
+ * A non-2xx response. `details` mirrors `status` and `body` for code that
+ * only looks at `APIError.details`.
+ */
+export class HTTPError extends APIError {
+  public status: number;
+  public statusText: string;
+  public url: string;
+  public method: string;
+  public headers: Record<string, string>;
+  public body: unknown;
+
+  constructor(message: string, init: HTTPErrorInit, options?: ErrorOptions) {
+    super(message, 'HTTP_ERROR', {
+      status: init.status,
+      url: init.url,
+      method: init.method,
+      body: toSerializable(init.body),
+    }, options);
+    this.name = 'HTTPError';
+    this.status = init.status;
+    this.statusText = init.statusText ?? '';
+    this.url = init.url;
+    this.method = init.method;
+    this.headers = init.headers ?? {};
+    this.body = init.body;
+  }
+
+  toJSON(): SerializedError {
+    return {
+      ...super.toJSON(),
+      http: {
+        status: this.status,
+        statusText: this.statusText,
+        url: this.url,
+        method: this.method,
+        headers: this.headers,
+        body: toSerializable(this.body),
+      },
+    };
+  }
+}
+
+const ERROR_CLASSES: Record<string, { prototype: APIError }> = {
+  APIError,
+  NetworkError,
+  ValidationError,
+  SchemaError,
+  PermissionError,
+  UnsupportedFeatureError,
+  HTTPError,
+};
+
+/**
+ * Structured-clone and JSON safe form of any thrown value, e.g. for a
+ * worker to post back: `postMessage({ id, error: serializeError(error) })`
+ */
+export function serializeError(error: unknown): SerializedError {
+  if (error instanceof APIError) {
+    return error.toJSON();
+  }
+  if (error instanceof Error) {
+    return {
+      name: error.name,
+      message: error.message,
+      stack: error.stack,
+      cause: error.cause === undefined ? undefined : serializeError(error.cause),
+    };
+  }
+  return { name: 'Error', message: String(error) };
+}
+
+export function isSerializedError(value: unknown): value is SerializedError {
+  return typeof value === 'object' && value !== null &&
+    typeof (value as SerializedError).name === 'string' &&
+    typeof (value as SerializedError).message === 'string';
+}
+
+// APIErrors come back as their class; anything else as a plain Error
+function reviveError(json: SerializedError): Error {
+  if (json.code || json.name in ERROR_CLASSES) {
+    return APIError.fromJSON(json);
+  }
+  const error = new Error(json.message, json.cause ? { cause: reviveError(json.cause) } : undefined);
+  error.name = json.name;
+  error.stack = json.stack;
+  return error;
+}
+
+function toSerializable(value: unknown, seen = new WeakSet<object>()): unknown {
+  if (value instanceof Error) return serializeError(value);
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'function' || typeof value === 'symbol') return undefined;
+  if (typeof value !== 'object' || value === null) return value;
+  if (seen.has(value)) return '[Circular]';
+  seen.add(value);
+
+  if (Array.isArray(value)) {
+    return value.map(item => toSerializable(item, seen));
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [key, toSerializable(item, seen)])
+  );
+}
+
+// Browsers word fetch failures differently: "Failed to fetch" (Chromium),
+// "NetworkError when attempting to fetch resource" (Firefox), "Load failed" (Safari)
+const NETWORK_FAILURE = /fetch|network|load failed/i;
+
+function isNetworkFailure(error: Error): boolean {
+  if (error.name === 'NetworkError') return true;
+  if (!(error instanceof TypeError)) return false;
+  return NETWORK_FAILURE.test(error.message) ||
+    (typeof navigator !== 'undefined' && navigator.onLine === false);
+}
+
+function isAbortError(error: Error): boolean {
+  return error.name === 'AbortError' || error.name === 'TimeoutError';
+}
+
 /**
  * Error Handler Utility
  */
 export class ErrorHandler {
   private static listeners: Set<(error: APIError) => void> = new Set();
+  // Errors already passed to listeners, so rethrown ones are not reported twice
+  private static handled = new WeakSet<object>();
+  private static detachGlobal: (() => void) | null = null;
 
   static addListener(listener: (error: APIError) => void): () => void {
     this.listeners.add(listener);
     return () => this.listeners.delete(listener);
   }
 
-  static handle(error: unknown): APIError {
-    let apiError: APIError;
-
+  /**
+   * Convert anything thrown into an APIError without notifying listeners
+   */
+  static normalize(error: unknown): APIError {
     if (error instanceof APIError) {
-      apiError = error;
-    } else if (error instanceof Error) {
-      // Convert standard errors to API errors
-      const errorDetails: ErrorDetails = { originalError: error };
-      if (error.name === 'TypeError' && error.message.includes('fetch')) {
-        apiError = new NetworkError(error.message, errorDetails);
-      } else if (error.name === 'AbortError') {
-        apiError = new APIError('Request was aborted', 'REQUEST_ABORTED', errorDetails);
-      } else {
-        apiError = new APIError(error.message, 'UNKNOWN_ERROR', errorDetails);
+      return error;
+    }
+    if (error instanceof Error) {
+      if (isAbortError(error)) {
+        return new APIError(Messages.format('error.aborted'), 'REQUEST_ABORTED', undefined, { cause: error });
       }
-    } else {
-      const errorDetails: ErrorDetails = { originalError: error };
-      apiError = new APIError('An unknown error occurred', 'UNKNOWN_ERROR', errorDetails);
+      if (isNetworkFailure(error)) {
+        return new NetworkError(error.message, undefined, { cause: error });
+      }
+      return new APIError(error.message, 'UNKNOWN_ERROR', undefined, { cause: error });
+    }
+    // e.g. an error posted back by a worker
+    if (isSerializedError(error)) {
+      return APIError.fromJSON(error);
+    }
+    return new APIError(Messages.format('error.unknown'), 'UNKNOWN_ERROR', undefined, { cause: error });
+  }
+
+  /**
+   * Pass an error to listeners without logging it, for events that are
+   * not failures yet, such as a request being retried
+   */
+  static notify(error: unknown): APIError {
+    const apiError = this.normalize(error);
+
+    this.handled.add(apiError);
+    if (typeof error === 'object' && error !== null) {
+      this.handled.add(error);
     }
 
     // Notify listeners
@@ -91,10 +293,14 @@ export class ErrorHandler {
       }
     });
 
-    // Log to console in development
-    if (typeof window !== 'undefined') {
-      console.error('API Error:', apiError);
-    }
+    return apiError;
+  }
+
+  static handle(error: unknown): APIError {
+    const apiError = this.notify(error);
+
+    // Logged on the server too, so SSR and prerender failures are not silent
+    console.error('API Error:', apiError);
 
     return apiError;
   }
@@ -116,6 +322,71 @@ export class ErrorHandler {
     }
   }
 
+  /**
+   * Route uncaught errors and unhandled promise rejections through
+   * `handle()`. Errors that were handled and then rethrown are skipped.
+   */
+  static captureGlobalErrors(): () => void {
+    if (typeof window === 'undefined') return () => undefined;
+    if (this.detachGlobal) return this.detachGlobal;
+
+    const onError = (event: ErrorEvent) => {
+      const error = event.error ?? new Error(event.message);
+      if (this.handled.has(error)) return;
+
+      this.handle(error instanceof APIError ? error : new APIError(
+        error instanceof Error ? error.message : String(error),
+        'UNCAUGHT_ERROR',
+        { filename: event.filename, lineno: event.lineno, colno: event.colno },
+        { cause: error }
+      ));
+    };
+
+    const onRejection = (event: PromiseRejectionEvent) => {
+      const { reason } = event;
+      if (typeof reason === 'object' && reason !== null && this.handled.has(reason)) return;
+
+      this.handle(reason instanceof APIError ? reason : new APIError(
+        reason instanceof Error ? reason.message : Messages.format('error.unhandledRejection', { reason: String(reason) }),
+        'UNHANDLED_REJECTION',
+        undefined,
+        { cause: reason }
+      ));
+    };
+
+    window.addEventListener('error', onError);
+    window.addEventListener('unhandledrejection', onRejection);
+
+    this.detachGlobal = () => {
+      window.removeEventListener('error', onError);
+      window.removeEventListener('unhandledrejection', onRejection);
+      this.detachGlobal = null;
+    };
+    return this.detachGlobal;
+  }
+
+  /**
+   * `createRoot` options that send render errors through `handle()`, both
+   * those caught by an error boundary and those that unmount the root
+   */
+  static reactRootOptions(): Pick<RootOptions, 'onCaughtError' | 'onUncaughtError'> {
+    const report = (code: string) => (error: unknown, errorInfo: { componentStack?: string }) => {
+      if (typeof error === 'object' && error !== null && this.handled.has(error)) return;
+
+      this.handle(error instanceof APIError ? error : new APIError(
+        error instanceof Error ? error.message : String(error),
+        code,
+        { componentStack: errorInfo.componentStack ?? null },
+        { cause: error }
+      ));
+    };
+
+    return {
+      onCaughtError: report('REACT_ERROR'),
+      onUncaughtError: report('REACT_UNCAUGHT_ERROR'),
+    };
+  }
+
   static wrapSync<T>(
     operation: () => T,
     fallback?: T
@@ -172,93 +443,264 @@ export class Validator {
     return true;
   }
 
+  /**
+   * Check every rule and collect all messages per field
+   */
   static validateFormData(formData: FormData, rules: ValidationRules): ValidationResult {
-    const errors: Record<string, string> = {};
-    
+    const fieldErrors: Record<string, string[]> = {};
+
     for (const [field, rule] of Object.entries(rules)) {
-      const value: FormDataEntryValue | null = formData.get(field);
-      
-      if (rule.required && (!value || (typeof value === 'string' && !value.trim()))) {
-        errors[field] = rule.requiredMessage || `${field} is required`;
-        continue;
+      const messages = this.validateField(field, formData, rule);
+      if (messages.length > 0) {
+        fieldErrors[field] = messages;
       }
-      
-      if (value && typeof value === 'string') {
-        if (rule.minLength && value.length < rule.minLength) {
-          errors[field] = rule.minLengthMessage || `${field} must be at least ${rule.minLength} characters`;
-          continue;
-        }
-        
-        if (rule.maxLength && value.length > rule.maxLength) {
-          errors[field] = rule.maxLengthMessage || `${field} must be no more than ${rule.maxLength} characters`;
-          continue;
-        }
-        
-        if (rule.pattern && !rule.pattern.test(value)) {
-          errors[field] = rule.patternMessage || `${field} format is invalid`;
-          continue;
+    }
+
+    return this.toResult(fieldErrors);
+  }
+
+  /**
+   * Sync checks first, then async validators for fields that passed them.
+   * A validator that fails is reported and leaves a message on its field;
+   * aborting `signal` rejects with the validator's AbortError.
+   */
+  static async validateFormDataAsync(
+    formData: FormData,
+    rules: ValidationRules,
+    signal?: AbortSignal
+  ): Promise<ValidationResult> {
+    const { fieldErrors } = this.validateFormData(formData, rules);
+
+    await Promise.all(Object.entries(rules).map(async ([field, rule]) => {
+      if (!rule.asyncValidator || fieldErrors[field] || (rule.when && !rule.when(formData))) return;
+
+      const value = formData.get(field);
+      if (value === null || isEmptyEntry(value)) return;
+
+      try {
+        const message = await rule.asyncValidator(toValidationValue(value), { formData, signal });
+        if (message) {
+          fieldErrors[field] = [message];
         }
-        
-        if (rule.type === 'email' && !this.isValidEmail(value)) {
-          errors[field] = rule.typeMessage || `${field} must be a valid email`;
-          continue;
+      } catch (error) {
+        if (signal?.aborted || (error instanceof Error && isAbortError(error))) throw error;
+        ErrorHandler.handle(error);
+        fieldErrors[field] = [Messages.format('validation.unavailable', { field: Messages.label(field) })];
+      }
+    }));
+
+    return this.toResult(fieldErrors);
+  }
+
+  /**
+   * All sync messages for one field; `formData` gives cross-field and
+   * conditional rules access to the other values
+   */
+  static validateField(field: string, formData: FormData, rule: ValidationRule): string[] {
+    if (rule.when && !rule.when(formData)) {
+      return [];
+    }
+
+    const entries = rule.multiple ? formData.getAll(field) : [formData.get(field)];
+    const values = entries.filter((value): value is FormDataEntryValue => !isEmptyEntry(value));
+    const messages: string[] = [];
+
+    if (values.length === 0) {
+      if (rule.required) {
+        return [rule.requiredMessage || Messages.format('validation.required', { field: Messages.label(field) })];
+      }
+    } else {
+      if (rule.multiple) {
+        if (rule.minItems !== undefined && values.length < rule.minItems) {
+          messages.push(rule.minItemsMessage || Messages.format('validation.minItems', { field: Messages.label(field), count: rule.minItems }));
         }
-        
-        if (rule.type === 'url' && !this.isValidUrl(value)) {
-          errors[field] = rule.typeMessage || `${field} must be a valid URL`;
-          continue;
+        if (rule.maxItems !== undefined && values.length > rule.maxItems) {
+          messages.push(rule.maxItemsMessage || Messages.format('validation.maxItems', { field: Messages.label(field), count: rule.maxItems }));
         }
       }
-      
-      if (rule.custom && value !== null) {
-        const validationValue: ValidationValue = typeof value === 'string' ? value : String(value);
-        const customError = rule.custom(validationValue);
-        if (customError) {
-          errors[field] = customError;
+
+      values.forEach((value) => {
+        messages.push(...(typeof value === 'string'
+          ? this.checkText(field, value, rule)
+          : this.checkFile(field, value, rule)));
+      });
+
+      if (rule.matches && formData.get(rule.matches) !== formData.get(field)) {
+        messages.push(rule.matchesMessage || Messages.format('validation.matches', {
+          field: Messages.label(field),
+          other: Messages.label(rule.matches),
+        }));
+      }
+    }
+
+    const value = entries[0] ?? null;
+    if (rule.custom && value !== null) {
+      const customError = rule.custom(toValidationValue(value), formData);
+      if (customError) {
+        messages.push(customError);
+      }
+    }
+
+    // Multi-value fields can repeat the same message per value
+    return [...new Set(messages)];
+  }
+
+  private static checkText(field: string, value: string, rule: ValidationRule): string[] {
+    const messages: string[] = [];
+
+    if (rule.minLength && value.length < rule.minLength) {
+      messages.push(rule.minLengthMessage || Messages.format('validation.minLength', { field: Messages.label(field), count: rule.minLength }));
+    }
+    if (rule.maxLength && value.length > rule.maxLength) {
+      messages.push(rule.maxLengthMessage || Messages.format('validation.maxLength', { field: Messages.label(field), count: rule.maxLength }));
+    }
+    if (rule.pattern && !rule.pattern.test(value)) {
+      messages.push(rule.patternMessage || Messages.format('validation.pattern', { field: Messages.label(field) }));
+    }
+
+    if (rule.type === 'email' && !this.isValidEmail(value)) {
+      messages.push(rule.typeMessage || Messages.format('validation.email', { field: Messages.label(field) }));
+    }
+    if (rule.type === 'url' && !this.isValidUrl(value)) {
+      messages.push(rule.typeMessage || Messages.format('validation.url', { field: Messages.label(field) }));
+    }
+    if (rule.type === 'number') {
+      const number = Number(value);
+      if (Number.isNaN(number)) {
+        messages.push(rule.typeMessage || Messages.format('validation.number', { field: Messages.label(field) }));
+      } else {
+        if (rule.min !== undefined && number < rule.min) {
+          messages.push(rule.minMessage || Messages.format('validation.min', { field: Messages.label(field), min: rule.min }));
+        }
+        if (rule.max !== undefined && number > rule.max) {
+          messages.push(rule.maxMessage || Messages.format('validation.max', { field: Messages.label(field), max: rule.max }));
         }
       }
     }
-    
+
+    return messages;
+  }
+
+  private static checkFile(field: string, file: File, rule: ValidationRule): string[] {
+    const messages: string[] = [];
+
+    if (rule.maxSize !== undefined && file.size > rule.maxSize) {
+      messages.push(rule.maxSizeMessage || Messages.format('validation.maxSize', {
+        field: Messages.label(field),
+        size: formatBytes(rule.maxSize),
+      }));
+    }
+    if (rule.accept && !rule.accept.some(type => matchesFileType(file, type))) {
+      messages.push(rule.acceptMessage || Messages.format('validation.accept', {
+        field: Messages.label(field),
+        types: rule.accept.join(', '),
+      }));
+    }
+
+    return messages;
+  }
+
+  private static toResult(fieldErrors: Record<string, string[]>): ValidationResult {
+    const errors: Record<string, string> = {};
+    Object.entries(fieldErrors).forEach(([field, messages]) => {
+      errors[field] = messages[0];
+    });
+
     return {
-      isValid: Object.keys(errors).length === 0,
-      errors
+      isValid: Object.keys(fieldErrors).length === 0,
+      errors,
+      fieldErrors
     };
   }
 
   static validateObject(obj: UnknownObject, schema: ObjectSchema): ValidationResult {
-    const errors: Record<string, string> = {};
+    const fieldErrors: Record<string, string[]> = {};
     
     for (const [key, rule] of Object.entries(schema)) {
-      const value = obj[key];
-      
-      if (rule.required && (value === undefined || value === null)) {
-        errors[key] = rule.requiredMessage || `${key} is required`;
-        continue;
-      }
-      
-      if (value !== undefined && value !== null) {
-        if (rule.type && typeof value !== rule.type) {
-          errors[key] = rule.typeMessage || `${key} must be of type ${rule.type}`;
-          continue;
-        }
-        
-        if (rule.validator) {
-          const validationValue: ValidationValue = typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean' || value === null || value === undefined 
-            ? value as ValidationValue 
-            : String(value);
-          const validationError = rule.validator(validationValue);
-          if (validationError) {
-            errors[key] = validationError;
-          }
-        }
-      }
+      this.validateValue(obj[key], rule, key, fieldErrors);
     }
     
-    return {
-      isValid: Object.keys(errors).length === 0,
-      errors
+    return this.toResult(fieldErrors);
+  }
+
+  /**
+   * Validate one value against a schema rule, descending into nested
+   * objects and array items. Errors are keyed by path, e.g. `items[0].title`.
+   */
+  static validateValue(
+    value: unknown,
+    rule: ObjectSchemaRule,
+    path: string,
+    errors: Record<string, string[]> = {}
+  ): Record<string, string[]> {
+    const label = path ? Messages.label(path) : Messages.format('validation.value');
+    const add = (message: string) => {
+      (errors[path] ??= []).push(message);
     };
+
+    if (value === undefined || value === null) {
+      if (rule.required) {
+        add(rule.requiredMessage || Messages.format('validation.required', { field: label }));
+      }
+      return errors;
+    }
+
+    const actualType = Array.isArray(value) ? 'array' : typeof value;
+    if (rule.type && actualType !== rule.type) {
+      add(rule.typeMessage || Messages.format('validation.type', { field: label, type: rule.type }));
+      return errors;
+    }
+
+    if (rule.schema && actualType === 'object') {
+      for (const [key, childRule] of Object.entries(rule.schema)) {
+        this.validateValue((value as UnknownObject)[key], childRule, path ? `${path}.${key}` : key, errors);
+      }
+    }
+
+    if (rule.items && Array.isArray(value)) {
+      value.forEach((item, index) => this.validateValue(item, rule.items!, `${path}[${index}]`, errors));
+    }
+
+    if (rule.validator) {
+      const validationValue: ValidationValue = typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean'
+        ? value
+        : String(value);
+      const validationError = rule.validator(validationValue);
+      if (validationError) {
+        add(validationError);
+      }
+    }
+
+    return errors;
+  }
+}
+
+// Empty text inputs submit '' and empty file inputs a nameless, empty File
+function isEmptyEntry(value: FormDataEntryValue | null): boolean {
+  if (value === null) return true;
+  if (typeof value === 'string') return !value.trim();
+  return value.size === 0 && !value.name;
+}
+
+function toValidationValue(value: FormDataEntryValue): ValidationValue {
+  return typeof value === 'string' ? value : value.name;
+}
+
+// Accepts MIME types (`image/png`), wildcards (`image/*`) and extensions (`.pdf`)
+function matchesFileType(file: File, type: string): boolean {
+  if (type.startsWith('.')) {
+    return file.name.toLowerCase().endsWith(type.toLowerCase());
   }
+  if (type.endsWith('/*')) {
+    return file.type.startsWith(type.slice(0, -1));
+  }
+  return file.type === type;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${Math.round(bytes / 1024 / 1024 * 10) / 10} MB`;
+  if (bytes >= 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${bytes} B`;
 }
 
 /**
@@ -275,7 +717,36 @@ export interface ValidationRule {
   patternMessage?: string;
   type?: 'email' | 'url' | 'number';
   typeMessage?: string;
-  custom?: (value: ValidationValue) => string | null;
+  // Bounds for `type: 'number'`
+  min?: number;
+  minMessage?: string;
+  max?: number;
+  maxMessage?: string;
+  // Receives every submitted value for cross-field checks such as date ranges
+  custom?: (value: ValidationValue, formData: FormData) => string | null;
+  // Must equal another field, e.g. a password confirmation
+  matches?: string;
+  matchesMessage?: string;
+  // The rule only applies while this returns true
+  when?: (formData: FormData) => boolean;
+  // Validate every value from `formData.getAll()`
+  multiple?: boolean;
+  minItems?: number;
+  minItemsMessage?: string;
+  maxItems?: number;
+  maxItemsMessage?: string;
+  // File constraints; `accept` takes MIME types, `type/*` wildcards or extensions
+  maxSize?: number;
+  maxSizeMessage?: string;
+  accept?: string[];
+  acceptMessage?: string;
+  // Runs after the sync checks pass, e.g. a uniqueness lookup
+  asyncValidator?: (
+    value: ValidationValue,
+    context: { formData: FormData; signal?: AbortSignal }
+  ) => Promise<string | null>;
+  // Delay before `asyncValidator` runs on blur/change, in milliseconds
+  debounce?: number;
 }
 
 export interface ValidationRules {
@@ -288,6 +759,10 @@ export interface ObjectSchemaRule {
   type?: 'string' | 'number' | 'boolean' | 'object' | 'array';
   typeMessage?: string;
   validator?: (value: ValidationValue) => string | null;
+  // Properties of a nested object
+  schema?: ObjectSchema;
+  // Rule applied to every array item
+  items?: ObjectSchemaRule;
 }
 
 export interface ObjectSchema {
@@ -296,78 +771,220 @@ export interface ObjectSchema {
 
 export interface ValidationResult {
   isValid: boolean;
+  // First message per field
   errors: Record<string, string>;
+  // Every message per field
+  fieldErrors: Record<string, string[]>;
 }
 
 /**
  * React Error Boundary for API errors
  */
+export type ErrorFallbackRender = (error: APIError, retry: () => void) => ReactNode;
+
 interface APIErrorBoundaryState {
   hasError: boolean;
   error: APIError | null;
+  retrying: boolean;
 }
 
 interface APIErrorBoundaryProps {
-  children: ReactNode;
-  fallback?: (error: APIError) => ReactNode;
+  children?: ReactNode;
+  // An error caught elsewhere (e.g. by the router) to show as if this boundary caught it;
+  // it is not reported again
+  error?: unknown;
+  fallback?: ErrorFallbackRender;
+  // Per error code, checked before `fallback`, e.g. { NETWORK_ERROR: renderOffline }
+  fallbacks?: Partial<Record<string, ErrorFallbackRender>>;
+  // Reset once any of these change, e.g. the current pathname or a query key
+  resetKeys?: readonly unknown[];
+  // Re-run whatever failed (refetch, invalidate) before the children render again
+  onRetry?: (error: APIError) => void | Promise<void>;
+  onReset?: () => void;
   onError?: (error: APIError, errorInfo: ErrorInfo) => void;
+  // Code, message and details in the default fallback; off in production builds
+  showDetails?: boolean;
+  signInUrl?: string;
 }
 
 export class APIErrorBoundary extends Component<APIErrorBoundaryProps, APIErrorBoundaryState> {
+  private detachOnline: (() => void) | null = null;
+
   constructor(props: APIErrorBoundaryProps) {
     super(props);
-    this.state = { hasError: false, error: null };
+    const error = props.error == null ? null : ErrorHandler.normalize(props.error);
+    this.state = { hasError: error !== null, error, retrying: false };
   }
 
-  static getDerivedStateFromError(error: Error): APIErrorBoundaryState {
+  static getDerivedStateFromError(error: Error): Partial<APIErrorBoundaryState> {
     const apiError = error instanceof APIError 
       ? error 
-      : new APIError(error.message, 'REACT_ERROR', { originalError: error });
+      : new APIError(error.message, 'REACT_ERROR', undefined, { cause: error });
       
     return { hasError: true, error: apiError };
   }
 
+  componentDidMount(): void {
+    if (this.state.error) {
+      this.retryWhenOnline(this.state.error);
+    }
+  }
+
   componentDidCatch(error: Error, errorInfo: ErrorInfo): void {
     const apiError: APIError = this.state.error || ErrorHandler.handle(error);
-    
+    this.retryWhenOnline(apiError);
     this.props.onError?.(apiError, errorInfo);
   }
 
+  componentDidUpdate(prevProps: APIErrorBoundaryProps, prevState: APIErrorBoundaryState): void {
+    if (this.props.error !== prevProps.error && this.props.error != null) {
+      const error = ErrorHandler.normalize(this.props.error);
+      this.setState({ hasError: true, error, retrying: false });
+      this.retryWhenOnline(error);
+      return;
+    }
+
+    // Skip the render that caught the error; keys may have changed in it too
+    if (!this.state.hasError || !prevState.hasError) return;
+
+    if (resetKeysChanged(prevProps.resetKeys, this.props.resetKeys)) {
+      this.reset();
+    }
+  }
+
+  componentWillUnmount(): void {
+    this.detachOnline?.();
+  }
+
+  // Offline failures retry by themselves once the connection is back
+  private retryWhenOnline(error: APIError): void {
+    this.detachOnline?.();
+    this.detachOnline = null;
+    if (!(error instanceof NetworkError) || typeof window === 'undefined') return;
+
+    window.addEventListener('online', this.retry);
+    this.detachOnline = () => window.removeEventListener('online', this.retry);
+  }
+
+  reset = (): void => {
+    this.detachOnline?.();
+    this.detachOnline = null;
+    this.setState({ hasError: false, error: null, retrying: false });
+    this.props.onReset?.();
+  };
+
+  retry = async (): Promise<void> => {
+    const { error } = this.state;
+    if (!error || this.state.retrying) return;
+
+    if (this.props.onRetry) {
+      this.setState({ retrying: true });
+      try {
+        await this.props.onRetry(error);
+      } catch (retryError) {
+        this.setState({ error: ErrorHandler.handle(retryError), retrying: false });
+        return;
+      }
+    }
+    this.reset();
+  };
+
   render(): ReactNode {
-    if (this.state.hasError && this.state.error) {
-      if (this.props.fallback) {
-        return this.props.fallback(this.state.error);
+    const { error, hasError, retrying } = this.state;
+
+    if (hasError && error) {
+      const retry = () => {
+        this.retry();
+      };
+      const fallback = this.props.fallbacks?.[error.code] ?? this.props.fallback;
+      if (fallback) {
+        return fallback(error, retry);
       }
 
-      return (
-        <div className="error-boundary">
-          <div className="error-boundary__content">
-            <h2>Something went wrong</h2>
-            <details>
-              <summary>Error Details</summary>
-              <p><strong>Code:</strong> {this.state.error.code}</p>
-              <p><strong>Message:</strong> {this.state.error.message}</p>
-              {this.state.error.details && (
-                <div className="color-code-display">
-                  <pre>{String(JSON.stringify(this.state.error.details, null, 2))}</pre>
-                </div>
-              )}
-            </details>
-            <button
-              onClick={() => this.setState({ hasError: false, error: null })}
-              className="error-boundary__retry"
-            >
-              Try Again
-            </button>
-          </div>
-        </div>
-      );
+      return renderDefaultFallback({
+        error,
+        retry,
+        retrying,
+        showDetails: this.props.showDetails,
+        signInUrl: this.props.signInUrl,
+      });
     }
 
-    return this.props.children;
+    return this.props.children ?? null;
   }
 }
 
+function resetKeysChanged(previous: readonly unknown[] = [], next: readonly unknown[] = []): boolean {
+  return previous.length !== next.length || previous.some((key, index) => !Object.is(key, next[index]));
+}
+
+export interface APIErrorFallbackProps {
+  error: APIError;
+  retry: () => void;
+  retrying?: boolean;
+  showDetails?: boolean;
+  signInUrl?: string;
+}
+
+/**
+ * Default fallback: an offline view for network errors, a sign-in prompt
+ * for permission errors, and a generic message otherwise. Raw details are
+ * only shown in development.
+ */
+function renderDefaultFallback({
+  error,
+  retry,
+  retrying = false,
+  showDetails = import.meta.env.DEV,
+  signInUrl,
+}: APIErrorFallbackProps): ReactNode {
+  const variant = error instanceof NetworkError ? 'offline'
+    : error instanceof PermissionError ? 'sign-in'
+    : 'generic';
+
+  const copy = {
+    offline: [Messages.format('boundary.offline.title'), Messages.format('boundary.offline.description')],
+    'sign-in': [Messages.format('boundary.signIn.title'), Messages.format('boundary.signIn.description')],
+    generic: [Messages.format('boundary.title'), Messages.format('boundary.description')],
+  }[variant];
+
+  return (
+    <div className={`error-boundary error-boundary--${variant}`} role="alert">
+      <div className="error-boundary__content">
+        <h2>{copy[0]}</h2>
+        <p>{copy[1]}</p>
+        {showDetails && (
+          <details>
+            <summary>{Messages.format('boundary.details')}</summary>
+            <p><strong>{Messages.format('boundary.code')}</strong> {error.code}</p>
+            <p><strong>{Messages.format('boundary.message')}</strong> {error.message}</p>
+            {error.details && (
+              <div className="color-code-display">
+                <pre>{String(JSON.stringify(error.details, null, 2))}</pre>
+              </div>
+            )}
+          </details>
+        )}
+        <div className="error-boundary__actions">
+          {variant === 'sign-in' && signInUrl && (
+            <a href={signInUrl} className="error-boundary__sign-in">
+              {Messages.format('boundary.signIn.action')}
+            </a>
+          )}
+          <button
+            type="button"
+            onClick={retry}
+            disabled={retrying}
+            className="error-boundary__retry"
+          >
+            {Messages.format(retrying ? 'boundary.retrying' : 'boundary.retry')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 /**
  * React hook for error handling
  */
@@ -391,58 +1008,3 @@ export function useErrorHandler(): {
     withErrorHandling
   };
 }
-
-/**
- * Feature detection utilities
- */
-export class FeatureDetection {
-  static checkWebAPI(feature: string): boolean {
-    const features: Record<string, () => boolean> = {
-      'service-worker': () => 'serviceWorker' in navigator,
-      'view-transitions': () => 'startViewTransition' in document,
-      'web-share': () => 'share' in navigator,
-      'notifications': () => 'Notification' in window,
-      'web-workers': () => 'Worker' in window,
-      'intersection-observer': () => 'IntersectionObserver' in window,
-      'resize-observer': () => 'ResizeObserver' in window,
-      'speculation-rules': () => 'speculationRules' in HTMLScriptElement.prototype,
-      'navigation-api': () => 'navigation' in window,
-      'cache-api': () => 'caches' in window,
-      'background-sync': () => 'serviceWorker' in navigator && 'sync' in window.ServiceWorkerRegistration.prototype,
-      'push-api': () => 'PushManager' in window,
-    };
-
-    const detector = features[feature];
-    if (!detector) {
-      throw new UnsupportedFeatureError(`Unknown feature: ${feature}`);
-    }
-
-    return detector();
-  }
-
-  static requireFeature(feature: string): void {
-    if (!this.checkWebAPI(feature)) {
-      throw new UnsupportedFeatureError(feature);
-    }
-  }
-
-  static withFeatureCheck<T>(
-    feature: string,
-    operation: () => T,
-    fallback?: T
-  ): T | undefined {
-    try {
-      this.requireFeature(feature);
-      return operation();
-    } catch (error: unknown) {
-      if (error instanceof UnsupportedFeatureError) {
-        if (fallback !== undefined) {
-          return fallback;
-        }
-        console.warn(`Feature ${feature} not supported, skipping operation`);
-        return undefined;
-      }
-      throw error;
-    }
-  }
-}
\ No newline at end of file
@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { FeatureDetection, getAPISupport } from './index';
+import { UnsupportedFeatureError } from './error-handling';
+
+declare module './feature-detection' {
+  interface CustomFeatures {
+    testFeature: true;
+    flakyFeature: true;
+    polyfillableFeature: true;
+  }
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('FeatureDetection registry', () => {
+  it('registers custom features alongside the built-ins', () => {
+    let available = false;
+    FeatureDetection.register('testFeature', { name: 'Test Feature', detect: () => available });
+
+    expect(FeatureDetection.list()).toEqual(expect.arrayContaining(['viewTransitions', 'testFeature']));
+    expect(FeatureDetection.checkWebAPI('testFeature')).toBe(false);
+    available = true;
+    expect(FeatureDetection.checkWebAPI('testFeature')).toBe(true);
+    expect(getAPISupport().testFeature).toBe(true);
+  });
+
+  it('treats a throwing detector as unsupported', () => {
+    FeatureDetection.register('flakyFeature', {
+      name: 'Flaky',
+      detect: () => (window as unknown as { missing: { api: boolean } }).missing.api,
+    });
+
+    expect(FeatureDetection.checkWebAPI('flakyFeature')).toBe(false);
+  });
+
+  it('throws for names that were never registered', () => {
+    expect(() => FeatureDetection.describe('nope' as never)).toThrow(UnsupportedFeatureError);
+  });
+
+  it('runs operations only when the feature is there', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    FeatureDetection.register('testFeature', { name: 'Test Feature', detect: () => false });
+
+    expect(FeatureDetection.withFeatureCheck('testFeature', () => 'ran', 'fallback')).toBe('fallback');
+    expect(FeatureDetection.withFeatureCheck('testFeature', () => 'ran')).toBeUndefined();
+    expect(() => FeatureDetection.requireFeature('testFeature')).toThrow(UnsupportedFeatureError);
+  });
+});
+
+describe('FeatureDetection.applyPolyfills', () => {
+  it('reports features made to work by a polyfill as polyfilled', async () => {
+    let installed = false;
+    FeatureDetection.register('polyfillableFeature', {
+      name: 'Polyfillable',
+      detect: () => installed,
+      polyfill: async () => {
+        installed = true;
+      },
+    });
+
+    expect(FeatureDetection.status('polyfillableFeature')).toBe('unsupported');
+    const report = await FeatureDetection.applyPolyfills(['polyfillableFeature']);
+
+    expect(report.polyfillableFeature).toBe('polyfilled');
+  });
+
+  it('leaves a feature unsupported when its polyfill fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    FeatureDetection.register('flakyFeature', {
+      name: 'Flaky',
+      detect: () => false,
+      polyfill: () => Promise.reject(new Error('offline')),
+    });
+
+    const report = await FeatureDetection.applyPolyfills(['flakyFeature']);
+
+    expect(report.flakyFeature).toBe('unsupported');
+  });
+
+  it('installs the popover fallback', async () => {
+    const native = FeatureDetection.status('popover');
+    await FeatureDetection.applyPolyfills(['popover']);
+    expect(FeatureDetection.status('popover')).toBe(native === 'native' ? 'native' : 'polyfilled');
+
+    const popover = document.createElement('div');
+    popover.setAttribute('popover', '');
+    document.body.append(popover);
+    const toggles: string[] = [];
+    popover.addEventListener('toggle', event => toggles.push((event as ToggleEvent).newState));
+
+    popover.showPopover();
+    popover.hidePopover();
+
+    expect(toggles).toEqual(['open', 'closed']);
+    popover.remove();
+  });
+});
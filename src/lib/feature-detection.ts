@@ -0,0 +1,281 @@
+// Feature detection registry shared by FeatureDetection and getAPISupport
+import { UnsupportedFeatureError } from './error-handling';
+
+// https://web.dev/baseline: widely = all major browsers for 30+ months
+export type BaselineStatus = 'widely' | 'newly' | 'limited';
+
+export interface FeatureDefinition {
+  // Human-readable name, e.g. for support tables
+  name: string;
+  detect: () => boolean;
+  spec?: string;
+  baseline?: BaselineStatus;
+  // Loads a polyfill that makes `detect()` pass
+  polyfill?: () => Promise<unknown>;
+}
+
+const BUILT_IN_FEATURES = {
+  // Modern Web Platform APIs
+  viewTransitions: {
+    name: 'View Transitions',
+    detect: () => 'startViewTransition' in document,
+    spec: 'https://drafts.csswg.org/css-view-transitions-1/',
+    baseline: 'newly',
+  },
+  intersectionObserver: {
+    name: 'Intersection Observer',
+    detect: () => 'IntersectionObserver' in window,
+    spec: 'https://w3c.github.io/IntersectionObserver/',
+    baseline: 'widely',
+    polyfill: () => import('./polyfills/intersection-observer').then(module => module.install()),
+  },
+  resizeObserver: {
+    name: 'Resize Observer',
+    detect: () => 'ResizeObserver' in window,
+    spec: 'https://drafts.csswg.org/resize-observer/',
+    baseline: 'widely',
+  },
+  webShare: {
+    name: 'Web Share',
+    detect: () => 'share' in navigator,
+    spec: 'https://w3c.github.io/web-share/',
+    baseline: 'limited',
+  },
+  navigationAPI: {
+    name: 'Navigation API',
+    detect: () => 'navigation' in window,
+    spec: 'https://html.spec.whatwg.org/multipage/nav-history-apis.html#navigation-api',
+    baseline: 'newly',
+    polyfill: () => import('./polyfills/navigation').then(module => module.install()),
+  },
+  popover: {
+    name: 'Popover',
+    detect: () => Object.prototype.hasOwnProperty.call(HTMLElement.prototype, 'popover'),
+    spec: 'https://html.spec.whatwg.org/multipage/popover.html',
+    baseline: 'newly',
+    polyfill: () => import('./polyfills/popover').then(module => module.install()),
+  },
+
+  // PWA APIs
+  serviceWorker: {
+    name: 'Service Worker',
+    detect: () => 'serviceWorker' in navigator,
+    spec: 'https://w3c.github.io/ServiceWorker/',
+    baseline: 'widely',
+  },
+  notifications: {
+    name: 'Notifications',
+    detect: () => 'Notification' in window,
+    spec: 'https://notifications.spec.whatwg.org/',
+    baseline: 'limited',
+  },
+  pushManager: {
+    name: 'Push API',
+    detect: () => 'PushManager' in window,
+    spec: 'https://w3c.github.io/push-api/',
+    baseline: 'limited',
+  },
+  cacheAPI: {
+    name: 'Cache API',
+    detect: () => 'caches' in window,
+    spec: 'https://w3c.github.io/ServiceWorker/#cache-interface',
+    baseline: 'widely',
+  },
+  backgroundSync: {
+    name: 'Background Sync',
+    detect: () => 'serviceWorker' in navigator && 'sync' in window.ServiceWorkerRegistration.prototype,
+    spec: 'https://wicg.github.io/background-sync/spec/',
+    baseline: 'limited',
+  },
+
+  // Performance APIs
+  speculationRules: {
+    name: 'Speculation Rules',
+    detect: () => 'speculationRules' in HTMLScriptElement.prototype,
+    spec: 'https://wicg.github.io/nav-speculation/speculation-rules.html',
+    baseline: 'limited',
+  },
+  webWorkers: {
+    name: 'Web Workers',
+    detect: () => 'Worker' in window,
+    spec: 'https://html.spec.whatwg.org/multipage/workers.html',
+    baseline: 'widely',
+  },
+  performanceObserver: {
+    name: 'Performance Observer',
+    detect: () => 'PerformanceObserver' in window,
+    spec: 'https://w3c.github.io/performance-timeline/',
+    baseline: 'widely',
+  },
+
+  // Storage APIs
+  indexedDB: {
+    name: 'IndexedDB',
+    detect: () => 'indexedDB' in window,
+    spec: 'https://w3c.github.io/IndexedDB/',
+    baseline: 'widely',
+  },
+  localStorage: {
+    name: 'Local Storage',
+    detect: () => 'localStorage' in window,
+    spec: 'https://html.spec.whatwg.org/multipage/webstorage.html',
+    baseline: 'widely',
+  },
+  sessionStorage: {
+    name: 'Session Storage',
+    detect: () => 'sessionStorage' in window,
+    spec: 'https://html.spec.whatwg.org/multipage/webstorage.html',
+    baseline: 'widely',
+  },
+
+  // Security APIs
+  credentialsAPI: {
+    name: 'Credential Management',
+    detect: () => 'credentials' in navigator,
+    spec: 'https://w3c.github.io/webappsec-credential-management/',
+    baseline: 'widely',
+  },
+  webAuthn: {
+    name: 'WebAuthn',
+    detect: () => 'credentials' in navigator && 'create' in navigator.credentials,
+    spec: 'https://w3c.github.io/webauthn/',
+    baseline: 'widely',
+  },
+} satisfies Record<string, FeatureDefinition>;
+
+/**
+ * Names of features registered at runtime. Augment it so `register()`,
+ * `checkWebAPI()` and `getAPISupport()` know about them:
+ *
+ *   declare module './lib/feature-detection' {
+ *     interface CustomFeatures { webGPU: true }
+ *   }
+ *   FeatureDetection.register('webGPU', { name: 'WebGPU', detect: () => 'gpu' in navigator });
+ */
+export interface CustomFeatures {
+  // A symbol key, so it never becomes a FeatureName
+  [customFeaturesSeed]?: never;
+}
+
+declare const customFeaturesSeed: unique symbol;
+
+export type FeatureName = keyof typeof BUILT_IN_FEATURES | Extract<keyof CustomFeatures, string>;
+
+export type FeatureSupport = Record<FeatureName, boolean>;
+
+// `polyfilled` means detect() only passes because applyPolyfills() loaded a fallback
+export type FeatureStatus = 'native' | 'polyfilled' | 'unsupported';
+
+export type FeatureReport = Record<FeatureName, FeatureStatus>;
+
+/**
+ * Feature detection utilities
+ */
+export class FeatureDetection {
+  private static definitions = new Map<string, FeatureDefinition>(Object.entries(BUILT_IN_FEATURES));
+  private static polyfilled = new Set<string>();
+
+  /**
+   * Add a feature, or replace a built-in detector
+   */
+  static register(feature: FeatureName, definition: FeatureDefinition): void {
+    this.definitions.set(feature, definition);
+  }
+
+  static describe(feature: FeatureName): FeatureDefinition {
+    const definition = this.definitions.get(feature);
+    if (!definition) {
+      // Only reachable from untyped callers or an augmented name that was never registered
+      throw new UnsupportedFeatureError(feature, { reason: 'unknown-feature' });
+    }
+    return definition;
+  }
+
+  static list(): FeatureName[] {
+    return [...this.definitions.keys()] as FeatureName[];
+  }
+
+  static checkWebAPI(feature: FeatureName): boolean {
+    const { detect } = this.describe(feature);
+    // Nothing is supported during SSR or in Node, whatever globals it has
+    if (typeof window === 'undefined') return false;
+    try {
+      return detect();
+    } catch {
+      // A detector touching a missing global means unsupported
+      return false;
+    }
+  }
+
+  /**
+   * Support for every registered feature
+   */
+  static getSupport(): FeatureSupport {
+    return Object.fromEntries(
+      this.list().map(feature => [feature, this.checkWebAPI(feature)])
+    ) as FeatureSupport;
+  }
+
+  static status(feature: FeatureName): FeatureStatus {
+    if (!this.checkWebAPI(feature)) return 'unsupported';
+    return this.polyfilled.has(feature) ? 'polyfilled' : 'native';
+  }
+
+  static getReport(): FeatureReport {
+    return Object.fromEntries(
+      this.list().map(feature => [feature, this.status(feature)])
+    ) as FeatureReport;
+  }
+
+  /**
+   * Load polyfills for missing features, in parallel. Await it before
+   * rendering so components can use the APIs unconditionally. A polyfill
+   * that fails to load leaves its feature `unsupported`.
+   */
+  static async applyPolyfills(features: FeatureName[] = this.list()): Promise<FeatureReport> {
+    if (typeof window === 'undefined') return this.getReport();
+
+    const missing = features.filter(feature =>
+      this.describe(feature).polyfill && !this.checkWebAPI(feature)
+    );
+
+    await Promise.all(missing.map(async (feature) => {
+      try {
+        await this.describe(feature).polyfill!();
+        if (this.checkWebAPI(feature)) {
+          this.polyfilled.add(feature);
+        }
+      } catch (error) {
+        console.warn(`Polyfill for ${feature} failed to load:`, error);
+      }
+    }));
+
+    return this.getReport();
+  }
+
+  static requireFeature(feature: FeatureName): void {
+    if (!this.checkWebAPI(feature)) {
+      throw new UnsupportedFeatureError(feature);
+    }
+  }
+
+  static withFeatureCheck<T>(
+    feature: FeatureName,
+    operation: () => T,
+    fallback?: T
+  ): T | undefined {
+    try {
+      this.requireFeature(feature);
+      return operation();
+    } catch (error: unknown) {
+      if (error instanceof UnsupportedFeatureError) {
+        if (fallback !== undefined) {
+          return fallback;
+        }
+        console.warn(`Feature ${feature} not supported, skipping operation`);
+        return undefined;
+      }
+      throw error;
+    }
+  }
+}
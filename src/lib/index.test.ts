@@ -0,0 +1,32 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { initializeAPIs, initializeAPIsAsync } from './index';
+import { FeatureDetection } from './feature-detection';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('initializeAPIs', () => {
+  it('returns its result synchronously', () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    const result = initializeAPIs();
+
+    expect(result).not.toBeInstanceOf(Promise);
+    expect(result.support).toEqual(expect.any(Object));
+    expect(result.features.popover).toMatch(/native|polyfilled|unsupported/);
+  });
+});
+
+describe('initializeAPIsAsync', () => {
+  it('loads polyfills first with gracefulDegradation', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const applyPolyfills = vi.spyOn(FeatureDetection, 'applyPolyfills').mockResolvedValue(FeatureDetection.getReport());
+
+    await initializeAPIsAsync({ gracefulDegradation: true });
+    expect(applyPolyfills).toHaveBeenCalledTimes(1);
+
+    await initializeAPIsAsync();
+    expect(applyPolyfills).toHaveBeenCalledTimes(1);
+  });
+});
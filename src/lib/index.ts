@@ -1,17 +1,34 @@
 // Advanced APIs Library - Main Export
 // React 19 Compatible Modern Web APIs
+import type { ErrorReporterConfig } from './types';
+import { ErrorReporter } from './api/error-reporting';
+import { FeatureDetection, type FeatureName, type FeatureSupport } from './feature-detection';
 
 // Type definitions
 export * from './types';
 
 // Core API modules
 export * from './api/data-management';
+export * from './api/transport';
+export * from './api/body';
+export * from './api/form-state';
+export * from './api/interceptors';
+export * from './api/retry';
+export * from './api/query-cache';
+export * from './api/resource';
+export * from './api/infinite-query';
+export * from './api/offline-queue';
+export * from './api/endpoints';
+export * from './api/error-reporting';
 export * from './api/web-platform';
+export * from './api/head';
 export * from './api/pwa';
 export * from './api/performance';
 
 // Error handling and validation
 export * from './error-handling';
+export * from './messages';
+export * from './feature-detection';
 
 // React hooks for APIs
 export * from '../hooks/useAdvancedAPIs';
@@ -23,38 +40,11 @@ export const ADVANCED_APIS_VERSION = '1.0.0';
 export const SUPPORTED_REACT_VERSION = '19.x';
 
 /**
- * Quick feature detection utility
+ * Quick feature detection utility, covering every feature in the
+ * FeatureDetection registry
  */
-export function getAPISupport() {
-  return {
-    // Modern Web Platform APIs
-    viewTransitions: 'startViewTransition' in document,
-    intersectionObserver: 'IntersectionObserver' in window,
-    resizeObserver: 'ResizeObserver' in window,
-    webShare: 'share' in navigator,
-    navigationAPI: 'navigation' in window,
-    
-    // PWA APIs
-    serviceWorker: 'serviceWorker' in navigator,
-    notifications: 'Notification' in window,
-    pushManager: 'PushManager' in window,
-    cacheAPI: 'caches' in window,
-    backgroundSync: 'serviceWorker' in navigator && 'sync' in window.ServiceWorkerRegistration.prototype,
-    
-    // Performance APIs
-    speculationRules: 'speculationRules' in HTMLScriptElement.prototype,
-    webWorkers: 'Worker' in window,
-    performanceObserver: 'PerformanceObserver' in window,
-    
-    // Storage APIs
-    indexedDB: 'indexedDB' in window,
-    localStorage: 'localStorage' in window,
-    sessionStorage: 'sessionStorage' in window,
-    
-    // Security APIs
-    credentialsAPI: 'credentials' in navigator,
-    webAuthn: 'credentials' in navigator && 'create' in (navigator as any).credentials,
-  };
+export function getAPISupport(): FeatureSupport {
+  return FeatureDetection.getSupport();
 }
 
 /**
@@ -64,6 +54,7 @@ export interface APIConfig {
   // Error handling
   enableGlobalErrorHandler?: boolean;
   logErrors?: boolean;
+  errorReporting?: ErrorReporterConfig;
   
   // Performance
   enablePerformanceMonitoring?: boolean;
@@ -73,19 +64,21 @@ export interface APIConfig {
   serviceWorkerPath?: string;
   enableNotifications?: boolean;
   
-  // Feature detection
+  // Feature detection: `initializeAPIsAsync` loads polyfills for missing features first
   gracefulDegradation?: boolean;
 }
 
 export function initializeAPIs(config: APIConfig = {}) {
+  const features = FeatureDetection.getReport();
   const support = getAPISupport();
   
   console.log('🚀 Advanced APIs Library initialized');
-  console.log('📊 Feature Support:', support);
+  console.log('📊 Feature Support:', features);
   
-  // Setup global error handling if enabled
+  // Route uncaught errors and rejections through ErrorHandler if enabled
   if (config.enableGlobalErrorHandler) {
     import('./error-handling').then(({ ErrorHandler }) => {
+      ErrorHandler.captureGlobalErrors();
       ErrorHandler.addListener((error) => {
         if (config.logErrors) {
           console.error('Global API Error:', error);
@@ -94,6 +87,11 @@ export function initializeAPIs(config: APIConfig = {}) {
     });
   }
   
+  // Send handled errors to a collector
+  if (config.errorReporting) {
+    new ErrorReporter(config.errorReporting).attach();
+  }
+  
   // Setup speculation rules if supported and enabled
   if (config.speculationRulesEnabled && support.speculationRules) {
     import('./api/performance').then(({ SpeculationAPI }) => {
@@ -117,11 +115,24 @@ export function initializeAPIs(config: APIConfig = {}) {
   
   return {
     support,
+    // native / polyfilled / unsupported per feature
+    features,
     config,
     version: ADVANCED_APIS_VERSION
   };
 }
 
+/**
+ * `initializeAPIs` after loading polyfills for missing features when
+ * `gracefulDegradation` is set, so `support` and `features` include them
+ */
+export async function initializeAPIsAsync(config: APIConfig = {}) {
+  if (config.gracefulDegradation) {
+    await FeatureDetection.applyPolyfills();
+  }
+  return initializeAPIs(config);
+}
+
 /**
  * Development utilities
  */
@@ -131,7 +142,7 @@ export const devUtils = {
     console.table(support);
   },
   
-  testFeature: (feature: keyof ReturnType<typeof getAPISupport>) => {
+  testFeature: (feature: FeatureName) => {
     const support = getAPISupport();
     const isSupported = support[feature];
     console.log(`${feature}: ${isSupported ? '✅ Supported' : '❌ Not supported'}`);
@@ -157,8 +168,12 @@ export const devUtils = {
  * Production utilities
  */
 export const prodUtils = {
-  reportError: (error: Error, context?: any) => {
-    // In production, you might want to send to an error reporting service
+  reportError: (error: Error, context?: Record<string, unknown>) => {
+    const reporter = ErrorReporter.active;
+    if (reporter) {
+      reporter.capture(error, context);
+      return;
+    }
     console.error('Production Error:', error, context);
   },
   
@@ -176,8 +191,8 @@ export const examples = {
   optimisticUpdate: `
 import { useOptimisticMutation } from '@/lib';
 
-const { data, mutate } = useOptimisticMutation(items, '/api/items');
-await mutate(newItem);
+const { data, mutate, error } = useOptimisticMutation(items, '/items');
+await mutate(newItem); // POST, or PUT when the id already exists
   `,
   
   // View transitions example
@@ -209,6 +224,7 @@ await showNotification('Hello!', { body: 'From your PWA' });
 // Default export for convenience
 export default {
   initializeAPIs,
+  initializeAPIsAsync,
   getAPISupport,
   devUtils,
   prodUtils,
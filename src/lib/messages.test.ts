@@ -0,0 +1,102 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Messages } from './messages';
+import { assertSchema, resolvePath } from './api/endpoints';
+import { encodeBody } from './api/body';
+import { Validator } from './error-handling';
+
+afterEach(() => {
+  Messages.setLocale('en');
+});
+
+describe('Messages', () => {
+  it('interpolates params and formats numbers for the locale', () => {
+    expect(Messages.format('validation.min', { field: 'age', min: 1500 })).toBe('age must be at least 1,500');
+    expect(Messages.format('validation.min', { field: 'age', min: 1500 }, 'de')).toBe('age must be at least 1.500');
+  });
+
+  it('returns unknown keys unchanged', () => {
+    expect(Messages.format('no.such.key')).toBe('no.such.key');
+    expect(Messages.has('no.such.key')).toBe(false);
+  });
+
+  it('falls back from region to language to English', () => {
+    Messages.addCatalog('pt', { 'validation.required': '{field} é obrigatório' });
+    Messages.addCatalog('pt-BR', { 'validation.email': '{field} deve ser um email válido' });
+
+    expect(Messages.format('validation.email', { field: 'email' }, 'pt-BR')).toBe('email deve ser um email válido');
+    expect(Messages.format('validation.required', { field: 'email' }, 'pt-BR')).toBe('email é obrigatório');
+    expect(Messages.format('validation.url', { field: 'site' }, 'pt-BR')).toBe('site must be a valid URL');
+  });
+
+  it('chooses plural forms by count', () => {
+    expect(Messages.format('validation.minLength', { field: 'name', count: 1 })).toBe('name must be at least 1 character');
+    expect(Messages.format('validation.minLength', { field: 'name', count: 3 })).toBe('name must be at least 3 characters');
+  });
+
+  it('uses the plural rules of the catalog the message came from', () => {
+    Messages.addCatalog('pl', {
+      'validation.minItems': {
+        one: 'Wybierz co najmniej {count} element',
+        few: 'Wybierz co najmniej {count} elementy',
+        many: 'Wybierz co najmniej {count} elementów',
+        other: 'Wybierz co najmniej {count} elementu',
+      },
+    });
+
+    expect(Messages.format('validation.minItems', { count: 3 }, 'pl-PL')).toBe('Wybierz co najmniej 3 elementy');
+    expect(Messages.format('validation.minItems', { count: 5 }, 'pl-PL')).toBe('Wybierz co najmniej 5 elementów');
+  });
+
+  it('prefers a zero form and falls back to other', () => {
+    Messages.addCatalog('en-x-test', {
+      items: { zero: 'No items', one: 'One item', other: '{count} items' },
+      plain: { other: 'Always {count}' },
+    });
+
+    expect(Messages.format('items', { count: 0 }, 'en-x-test')).toBe('No items');
+    expect(Messages.format('plain', { count: 1 }, 'en-x-test')).toBe('Always 1');
+    expect(Messages.format('items', {}, 'en-x-test')).toBe('{count} items');
+  });
+
+  it('labels fields per locale', () => {
+    Messages.setFieldLabels({ email: 'E-Mail-Adresse' }, 'de');
+    Messages.addCatalog('de', { 'validation.required': '{field} ist erforderlich' });
+    Messages.setLocale('de-AT');
+
+    const { errors } = Validator.validateFormData(new FormData(), { email: { required: true }, name: { required: true } });
+
+    expect(errors).toEqual({ email: 'E-Mail-Adresse ist erforderlich', name: 'name ist erforderlich' });
+  });
+
+  it('notifies listeners when the locale changes', () => {
+    const listener = vi.fn();
+    const remove = Messages.onLocaleChange(listener);
+
+    Messages.setLocale('fr');
+    Messages.setLocale('fr');
+    remove();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith('fr');
+  });
+});
+
+describe('library messages', () => {
+  it('come from the catalog', () => {
+    Messages.addCatalog('es', {
+      'validation.required': '{field} es obligatorio',
+      'error.pathParam': 'Falta el parámetro "{name}" en {path}',
+      'error.schema': '{context} no coincide con su esquema: {fields}',
+      'error.multipart': 'Los archivos requieren codificación multipart, no {encoding}',
+      'validation.value': 'valor',
+    });
+    Messages.setLocale('es');
+
+    const upload = new FormData();
+    upload.append('file', new File(['x'], 'a.txt'));
+
+    expect(() => resolvePath('/items/:id', {})).toThrow('Falta el parámetro "id" en /items/:id');
+    expect(() => assertSchema(1, { type: 'string' }, 'GET /items')).toThrow('GET /items no coincide con su esquema: valor');
+    expect(() => encodeBody(upload, 'json')).toThrow('Los archivos requieren codificación multipart, no json');
+  });
+});
@@ -0,0 +1,189 @@
+// Localizable message catalog for validation and error messages
+
+export type MessageParams = Record<string, string | number>;
+
+// Keyed by Intl.PluralRules category, selected by the `count` param
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+export type MessageTemplate = string | PluralMessage;
+
+export type MessageCatalog = Record<string, MessageTemplate>;
+
+const DEFAULT_LOCALE = 'en';
+
+const en: MessageCatalog = {
+  'validation.required': '{field} is required',
+  'validation.minLength': {
+    one: '{field} must be at least {count} character',
+    other: '{field} must be at least {count} characters',
+  },
+  'validation.maxLength': {
+    one: '{field} must be no more than {count} character',
+    other: '{field} must be no more than {count} characters',
+  },
+  'validation.pattern': '{field} format is invalid',
+  'validation.email': '{field} must be a valid email',
+  'validation.url': '{field} must be a valid URL',
+  'validation.number': '{field} must be a number',
+  'validation.min': '{field} must be at least {min}',
+  'validation.max': '{field} must be no more than {max}',
+  'validation.matches': '{field} must match {other}',
+  'validation.minItems': {
+    one: '{field} needs at least {count} selection',
+    other: '{field} needs at least {count} selections',
+  },
+  'validation.maxItems': {
+    one: '{field} allows at most {count} selection',
+    other: '{field} allows at most {count} selections',
+  },
+  'validation.maxSize': '{field} must be smaller than {size}',
+  'validation.accept': '{field} must be one of: {types}',
+  'validation.type': '{field} must be of type {type}',
+  'validation.unavailable': '{field} could not be checked, please try again',
+  // Label for a schema-checked value that is not inside an object
+  'validation.value': 'value',
+  'form.invalid': 'Please correct the highlighted fields',
+  'form.failed': 'Form submission failed',
+  'error.network': 'Network request failed',
+  'error.validation': 'Validation failed',
+  'error.permission': 'Permission denied',
+  'error.unsupported': 'Feature not supported: {feature}',
+  'error.aborted': 'Request was aborted',
+  'error.unknown': 'An unknown error occurred',
+  'error.unhandledRejection': 'Unhandled promise rejection: {reason}',
+  'error.worker': 'Worker error: {message}',
+  'error.worker.failed': 'Worker error: failed to load or run',
+  'error.worker.messageError': 'Worker error: message could not be deserialized',
+  'error.http': 'HTTP error! status: {status}',
+  'error.retrying': 'Retrying {method} {endpoint} after attempt {attempt} of {maxAttempts}',
+  'error.conflict': '{method} {endpoint} conflicts with a newer change on the server',
+  'error.pathParam': 'Missing path param "{name}" for {path}',
+  'error.schema': '{context} does not match its schema: {fields}',
+  'error.multipart': 'File uploads need multipart encoding, not {encoding}',
+  'boundary.title': 'Something went wrong',
+  'boundary.description': 'This part of the page failed to load.',
+  'boundary.details': 'Error Details',
+  'boundary.code': 'Code:',
+  'boundary.message': 'Message:',
+  'boundary.retry': 'Try Again',
+  'boundary.retrying': 'Retrying…',
+  'boundary.offline.title': 'You are offline',
+  'boundary.offline.description': 'Check your connection. We will try again as soon as you are back online.',
+  'boundary.signIn.title': 'Sign in required',
+  'boundary.signIn.description': 'Your session may have expired. Sign in to continue.',
+  'boundary.signIn.action': 'Sign in',
+};
+
+/**
+ * Message lookup with locale fallback (`pt-BR` → `pt` → `en`), `{param}`
+ * interpolation, plural forms chosen by `count`, and per-locale field labels
+ *
+ *   Messages.addCatalog('de', { 'validation.required': '{field} ist erforderlich' });
+ *   Messages.setFieldLabels({ email: 'E-Mail-Adresse' }, 'de');
+ *   Messages.setLocale('de');
+ */
+export class Messages {
+  private static locale = DEFAULT_LOCALE;
+  private static catalogs = new Map<string, MessageCatalog>([[DEFAULT_LOCALE, en]]);
+  private static labels = new Map<string, Record<string, string>>();
+  private static listeners = new Set<(locale: string) => void>();
+
+  static getLocale(): string {
+    return this.locale;
+  }
+
+  static setLocale(locale: string): void {
+    if (locale === this.locale) return;
+    this.locale = locale;
+    this.listeners.forEach(listener => listener(locale));
+  }
+
+  static onLocaleChange(listener: (locale: string) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Add or override messages for a locale; missing keys fall back
+   */
+  static addCatalog(locale: string, catalog: MessageCatalog): void {
+    this.catalogs.set(locale, { ...this.catalogs.get(locale), ...catalog });
+  }
+
+  static setFieldLabels(labels: Record<string, string>, locale = this.locale): void {
+    this.labels.set(locale, { ...this.labels.get(locale), ...labels });
+  }
+
+  /**
+   * Human-readable name for a form field, falling back to the field name
+   */
+  static label(field: string, locale = this.locale): string {
+    for (const candidate of fallbackChain(locale)) {
+      const label = this.labels.get(candidate)?.[field];
+      if (label) return label;
+    }
+    return field;
+  }
+
+  static has(key: string, locale = this.locale): boolean {
+    return fallbackChain(locale).some(candidate => this.catalogs.get(candidate)?.[key] !== undefined);
+  }
+
+  /**
+   * Format a message; unknown keys are returned as-is so gaps are visible
+   */
+  static format(key: string, params: MessageParams = {}, locale = this.locale): string {
+    let template: MessageTemplate | undefined;
+    let templateLocale = locale;
+
+    for (const candidate of fallbackChain(locale)) {
+      template = this.catalogs.get(candidate)?.[key];
+      if (template !== undefined) {
+        templateLocale = candidate;
+        break;
+      }
+    }
+
+    if (template === undefined) {
+      return key;
+    }
+
+    const text = typeof template === 'string'
+      ? template
+      : selectPlural(template, params.count, templateLocale);
+
+    // Plural forms follow the catalog's language, numbers the requested locale
+    return interpolate(text, params, locale);
+  }
+}
+
+function fallbackChain(locale: string): string[] {
+  const chain: string[] = [];
+  const parts = locale.split('-');
+
+  for (let length = parts.length; length > 0; length--) {
+    chain.push(parts.slice(0, length).join('-'));
+  }
+  if (!chain.includes(DEFAULT_LOCALE)) {
+    chain.push(DEFAULT_LOCALE);
+  }
+  return chain;
+}
+
+function selectPlural(message: PluralMessage, count: string | number | undefined, locale: string): string {
+  if (typeof count !== 'number') {
+    return message.other;
+  }
+  if (count === 0 && message.zero !== undefined) {
+    return message.zero;
+  }
+  return message[new Intl.PluralRules(locale).select(count)] ?? message.other;
+}
+
+function interpolate(text: string, params: MessageParams, locale: string): string {
+  return text.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    return typeof value === 'number' ? new Intl.NumberFormat(locale).format(value) : value;
+  });
+}
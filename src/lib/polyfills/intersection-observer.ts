@@ -0,0 +1,137 @@
+// IntersectionObserver fallback that measures targets on scroll and resize
+
+type Margins = [top: number, right: number, bottom: number, left: number];
+
+/**
+ * Enough of IntersectionObserver for lazy loading and reveal-on-scroll:
+ * thresholds, a root element and a px/% `rootMargin`. Checks run once per
+ * animation frame after a scroll or resize, rather than on every layout.
+ */
+class IntersectionObserverFallback implements IntersectionObserver {
+  readonly root: Element | Document | null;
+  readonly rootMargin: string;
+  readonly thresholds: ReadonlyArray<number>;
+  readonly scrollMargin = '0px';
+
+  private callback: IntersectionObserverCallback;
+  private margins: string[];
+  // Index of the last threshold crossed per target; -1 until first checked
+  private targets = new Map<Element, number>();
+  private frame = 0;
+
+  constructor(callback: IntersectionObserverCallback, options: IntersectionObserverInit = {}) {
+    this.callback = callback;
+    this.root = options.root ?? null;
+    this.rootMargin = options.rootMargin ?? '0px';
+    this.margins = expandMargins(this.rootMargin);
+
+    const threshold = options.threshold ?? 0;
+    this.thresholds = (Array.isArray(threshold) ? [...threshold] : [threshold]).sort((a, b) => a - b);
+  }
+
+  observe(target: Element): void {
+    if (this.targets.has(target)) return;
+    if (this.targets.size === 0) {
+      window.addEventListener('scroll', this.schedule, { capture: true, passive: true });
+      window.addEventListener('resize', this.schedule, { passive: true });
+    }
+    this.targets.set(target, -1);
+    this.schedule();
+  }
+
+  unobserve(target: Element): void {
+    this.targets.delete(target);
+    if (this.targets.size === 0) {
+      this.disconnect();
+    }
+  }
+
+  disconnect(): void {
+    this.targets.clear();
+    cancelAnimationFrame(this.frame);
+    this.frame = 0;
+    window.removeEventListener('scroll', this.schedule, { capture: true });
+    window.removeEventListener('resize', this.schedule);
+  }
+
+  takeRecords(): IntersectionObserverEntry[] {
+    return [];
+  }
+
+  private schedule = (): void => {
+    this.frame ||= requestAnimationFrame(() => {
+      this.frame = 0;
+      this.check();
+    });
+  };
+
+  private check(): void {
+    const rootBounds = this.rootBounds();
+    const entries: IntersectionObserverEntry[] = [];
+
+    this.targets.forEach((previous, target) => {
+      const bounds = target.getBoundingClientRect();
+      const intersection = intersect(bounds, rootBounds);
+      const area = bounds.width * bounds.height;
+      const isIntersecting = intersection !== null && target.isConnected;
+      const ratio = !isIntersecting ? 0
+        : area === 0 ? 1
+        : (intersection.width * intersection.height) / area;
+      const index = isIntersecting ? this.thresholds.filter(value => ratio >= value).length : 0;
+
+      if (index !== previous) {
+        this.targets.set(target, index);
+        entries.push({
+          time: performance.now(),
+          target,
+          rootBounds,
+          boundingClientRect: bounds,
+          intersectionRect: intersection ?? new DOMRect(),
+          intersectionRatio: ratio,
+          isIntersecting,
+        });
+      }
+    });
+
+    if (entries.length > 0) {
+      this.callback(entries, this);
+    }
+  }
+
+  private rootBounds(): DOMRect {
+    const base = this.root instanceof Element
+      ? this.root.getBoundingClientRect()
+      : new DOMRect(0, 0, document.documentElement.clientWidth, window.innerHeight);
+
+    const [top, right, bottom, left] = this.margins.map((margin, index) =>
+      margin.endsWith('%')
+        ? (parseFloat(margin) / 100) * (index % 2 === 0 ? base.height : base.width)
+        : parseFloat(margin) || 0
+    ) as Margins;
+
+    return new DOMRect(base.left - left, base.top - top, base.width + left + right, base.height + top + bottom);
+  }
+}
+
+// CSS margin shorthand: 1 to 4 values for top, right, bottom, left
+function expandMargins(rootMargin: string): string[] {
+  const [top = '0px', right = top, bottom = top, left = right] = rootMargin.trim().split(/\s+/);
+  return [top, right, bottom, left];
+}
+
+function intersect(a: DOMRect, b: DOMRect): DOMRect | null {
+  const left = Math.max(a.left, b.left);
+  const top = Math.max(a.top, b.top);
+  const right = Math.min(a.right, b.right);
+  const bottom = Math.min(a.bottom, b.bottom);
+  return right >= left && bottom >= top ? new DOMRect(left, top, right - left, bottom - top) : null;
+}
+
+export function install(): void {
+  if ('IntersectionObserver' in window) return;
+  Object.defineProperty(window, 'IntersectionObserver', {
+    value: IntersectionObserverFallback,
+    configurable: true,
+    writable: true,
+  });
+}
@@ -0,0 +1,301 @@
+// Navigation API subset backed by the History API
+
+type NavigationType = 'push' | 'replace' | 'traverse' | 'reload';
+
+interface EntryRecord {
+  key: string;
+  id: string;
+  url: string;
+  state: unknown;
+}
+
+interface InterceptOptions {
+  handler?: () => Promise<void>;
+}
+
+// Where the fallback keeps its entry key inside history.state
+const STATE_KEY = '__navigationEntry';
+
+class HistoryEntry extends EventTarget {
+  readonly key: string;
+  readonly id: string;
+  readonly url: string;
+  readonly index: number;
+  readonly sameDocument = true;
+  private state: unknown;
+
+  constructor(record: EntryRecord, index: number) {
+    super();
+    this.key = record.key;
+    this.id = record.id;
+    this.url = record.url;
+    this.index = index;
+    this.state = record.state;
+  }
+
+  getState(): unknown {
+    return this.state;
+  }
+}
+
+class NavigateEventFallback extends Event {
+  readonly navigationType: NavigationType;
+  readonly destination: { url: string; key: string | null; sameDocument: boolean; getState: () => unknown };
+  readonly canIntercept = true;
+  readonly userInitiated: boolean;
+  readonly hashChange: boolean;
+  readonly info: unknown;
+  readonly signal: AbortSignal;
+  handlers: (() => Promise<void>)[] = [];
+  intercepted = false;
+
+  constructor(init: {
+    navigationType: NavigationType;
+    url: string;
+    key?: string | null;
+    state?: unknown;
+    info?: unknown;
+    userInitiated?: boolean;
+    signal: AbortSignal;
+  }) {
+    super('navigate', { cancelable: init.navigationType !== 'traverse' });
+    this.navigationType = init.navigationType;
+    this.destination = {
+      url: init.url,
+      key: init.key ?? null,
+      sameDocument: true,
+      getState: () => init.state,
+    };
+    this.userInitiated = init.userInitiated ?? false;
+    this.hashChange = isHashChange(init.url);
+    this.info = init.info;
+    this.signal = init.signal;
+  }
+
+  intercept(options: InterceptOptions = {}): void {
+    this.intercepted = true;
+    if (options.handler) {
+      this.handlers.push(options.handler);
+    }
+  }
+
+  scroll(): void {
+    // Scroll restoration is left to the browser's History API handling
+  }
+}
+
+/**
+ * `window.navigation` for browsers without the Navigation API. Same-document
+ * navigations (`navigate()`, link clicks, back/forward) fire `navigate`
+ * events that can be intercepted; anything not intercepted falls back to a
+ * regular page load, like the native API. `entries()` only knows entries
+ * created since the page loaded.
+ */
+class HistoryNavigation extends EventTarget {
+  private records: EntryRecord[] = [];
+  private index = 0;
+  private controller: AbortController | null = null;
+
+  constructor() {
+    super();
+    const existing = (history.state as Record<string, unknown> | null)?.[STATE_KEY] as EntryRecord | undefined;
+    const record = existing ?? createRecord(location.href, undefined);
+    this.records = [record];
+    history.replaceState(withRecord(history.state, record), '');
+
+    window.addEventListener('popstate', this.onPopState);
+    document.addEventListener('click', this.onClick);
+  }
+
+  get currentEntry(): HistoryEntry {
+    return new HistoryEntry(this.records[this.index], this.index);
+  }
+
+  get canGoBack(): boolean {
+    return this.index > 0;
+  }
+
+  get canGoForward(): boolean {
+    return this.index < this.records.length - 1;
+  }
+
+  get transition(): null {
+    return null;
+  }
+
+  entries(): HistoryEntry[] {
+    return this.records.map((record, index) => new HistoryEntry(record, index));
+  }
+
+  navigate(url: string, options: { state?: unknown; info?: unknown; history?: 'auto' | 'push' | 'replace' } = {}) {
+    const target = new URL(url, location.href).href;
+    const type = options.history === 'replace' || (options.history !== 'push' && target === location.href)
+      ? 'replace'
+      : 'push';
+    return this.commit(type, target, options.state, options.info);
+  }
+
+  reload(options: { state?: unknown; info?: unknown } = {}) {
+    return this.commit('reload', location.href, options.state ?? this.currentEntry.getState(), options.info);
+  }
+
+  back() {
+    return this.traverse(-1);
+  }
+
+  forward() {
+    return this.traverse(1);
+  }
+
+  traverseTo(key: string) {
+    const index = this.records.findIndex(record => record.key === key);
+    if (index === -1) {
+      const error = new DOMException('Unknown navigation entry', 'InvalidStateError');
+      return { committed: Promise.reject(error), finished: Promise.reject(error) };
+    }
+    return this.traverse(index - this.index);
+  }
+
+  updateCurrentEntry({ state }: { state: unknown }): void {
+    const record = { ...this.records[this.index], state };
+    this.records[this.index] = record;
+    history.replaceState(withRecord(history.state, record), '');
+  }
+
+  private commit(type: NavigationType, url: string, state: unknown, info: unknown, userInitiated = false) {
+    const event = this.dispatchNavigate({ navigationType: type, url, state, info, userInitiated });
+
+    if (event.defaultPrevented) {
+      const error = new DOMException('Navigation was cancelled', 'AbortError');
+      return { committed: Promise.reject(error), finished: Promise.reject(error) };
+    }
+
+    if (!event.intercepted) {
+      // Not handled in-page: do what a browser without a router would do
+      if (type === 'reload') location.reload();
+      else if (type === 'replace') location.replace(url);
+      else location.assign(url);
+      return { committed: new Promise<HistoryEntry>(() => undefined), finished: new Promise<HistoryEntry>(() => undefined) };
+    }
+
+    const record = createRecord(url, state);
+    if (type === 'push') {
+      this.records.splice(this.index + 1, Infinity, record);
+      this.index++;
+      history.pushState(withRecord(history.state, record), '', url);
+    } else {
+      this.records[this.index] = record;
+      history.replaceState(withRecord(history.state, record), '', url);
+    }
+
+    const entry = this.currentEntry;
+    this.dispatchEvent(new Event('currententrychange'));
+    return { committed: Promise.resolve(entry), finished: this.finish(event, entry) };
+  }
+
+  private traverse(delta: number) {
+    if (delta === 0 || !this.records[this.index + delta]) {
+      const error = new DOMException('Cannot traverse that far', 'InvalidStateError');
+      return { committed: Promise.reject(error), finished: Promise.reject(error) };
+    }
+
+    const settled = new Promise<HistoryEntry>((resolve) => {
+      this.addEventListener('currententrychange', () => resolve(this.currentEntry), { once: true });
+    });
+    history.go(delta);
+    return { committed: settled, finished: settled };
+  }
+
+  private dispatchNavigate(init: Omit<ConstructorParameters<typeof NavigateEventFallback>[0], 'signal'>) {
+    // A new navigation aborts the handlers of the previous one
+    this.controller?.abort();
+    this.controller = new AbortController();
+
+    const event = new NavigateEventFallback({ ...init, signal: this.controller.signal });
+    this.dispatchEvent(event);
+    return event;
+  }
+
+  private async finish(event: NavigateEventFallback, entry: HistoryEntry): Promise<HistoryEntry> {
+    try {
+      await Promise.all(event.handlers.map(handler => handler()));
+      this.dispatchEvent(new Event('navigatesuccess'));
+      return entry;
+    } catch (error) {
+      this.dispatchEvent(Object.assign(new Event('navigateerror'), { error }));
+      throw error;
+    }
+  }
+
+  private onPopState = (event: PopStateEvent): void => {
+    const record = (event.state as Record<string, unknown> | null)?.[STATE_KEY] as EntryRecord | undefined;
+    const index = record ? this.records.findIndex(known => known.key === record.key) : -1;
+
+    if (index === -1) {
+      // An entry from before this page load; start tracking it
+      const fresh = record ?? createRecord(location.href, undefined);
+      this.records = [fresh];
+      this.index = 0;
+    } else {
+      this.index = index;
+    }
+
+    const navigate = this.dispatchNavigate({
+      navigationType: 'traverse',
+      url: location.href,
+      key: this.records[this.index].key,
+      state: this.records[this.index].state,
+      userInitiated: true,
+    });
+    this.dispatchEvent(new Event('currententrychange'));
+    this.finish(navigate, this.currentEntry).catch(() => undefined);
+  };
+
+  private onClick = (event: MouseEvent): void => {
+    if (event.defaultPrevented || event.button !== 0 || event.metaKey || event.ctrlKey || event.shiftKey || event.altKey) {
+      return;
+    }
+    const link = event.target instanceof Element ? event.target.closest('a[href]') : null;
+    if (!(link instanceof HTMLAnchorElement) || link.target || link.hasAttribute('download') || link.origin !== location.origin) {
+      return;
+    }
+
+    const navigate = this.dispatchNavigate({ navigationType: 'push', url: link.href, userInitiated: true });
+    if (navigate.defaultPrevented) {
+      event.preventDefault();
+      return;
+    }
+    if (!navigate.intercepted) return;
+
+    event.preventDefault();
+    const record = createRecord(link.href, undefined);
+    this.records.splice(this.index + 1, Infinity, record);
+    this.index++;
+    history.pushState(withRecord(history.state, record), '', link.href);
+    this.dispatchEvent(new Event('currententrychange'));
+    this.finish(navigate, this.currentEntry).catch(() => undefined);
+  };
+}
+
+function createRecord(url: string, state: unknown): EntryRecord {
+  return { key: crypto.randomUUID(), id: crypto.randomUUID(), url, state };
+}
+
+function withRecord(state: unknown, record: EntryRecord): Record<string, unknown> {
+  const base = state && typeof state === 'object' ? state as Record<string, unknown> : {};
+  return { ...base, [STATE_KEY]: record };
+}
+
+function isHashChange(url: string): boolean {
+  const target = new URL(url, location.href);
+  return target.hash !== location.hash &&
+    target.href.split('#')[0] === location.href.split('#')[0];
+}
+
+export function install(): void {
+  if ('navigation' in window) return;
+  Object.defineProperty(window, 'navigation', {
+    value: new HistoryNavigation(),
+    configurable: true,
+  });
+}
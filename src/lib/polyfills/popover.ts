@@ -0,0 +1,159 @@
+// Popover attribute fallback: show/hide, invoker buttons and light dismiss
+
+type PopoverAction = 'show' | 'hide' | 'toggle';
+
+// Stands in for the :popover-open pseudo-class
+const OPEN_CLASS = 'popover-open';
+
+// Open popover="auto" elements, outermost first
+const autoStack: HTMLElement[] = [];
+// Button that last opened each popover, used for positioning and focus return
+const invokers = new WeakMap<HTMLElement, HTMLElement>();
+
+function isOpen(element: HTMLElement): boolean {
+  return element.classList.contains(OPEN_CLASS);
+}
+
+function popoverType(element: HTMLElement): string | null {
+  const value = element.getAttribute('popover');
+  if (value === null) return null;
+  return value === 'manual' ? 'manual' : 'auto';
+}
+
+function fireToggle(element: HTMLElement, type: 'beforetoggle' | 'toggle', oldState: string, newState: string): boolean {
+  const event = new Event(type, { cancelable: type === 'beforetoggle' && newState === 'open' });
+  Object.assign(event, { oldState, newState });
+  return element.dispatchEvent(event);
+}
+
+function show(element: HTMLElement): void {
+  if (!popoverType(element)) {
+    throw new DOMException('Element is not a popover', 'NotSupportedError');
+  }
+  if (isOpen(element)) return;
+  if (!fireToggle(element, 'beforetoggle', 'closed', 'open')) return;
+
+  if (popoverType(element) === 'auto') {
+    // Opening an auto popover closes every other one it isn't nested in
+    const parent = innermostContaining(invokers.get(element) ?? element);
+    hideAbove(parent);
+    autoStack.push(element);
+  }
+
+  element.classList.add(OPEN_CLASS);
+  position(element);
+  fireToggle(element, 'toggle', 'closed', 'open');
+}
+
+function hide(element: HTMLElement): void {
+  if (!isOpen(element)) return;
+
+  const index = autoStack.indexOf(element);
+  if (index !== -1) {
+    hideAbove(element);
+    autoStack.splice(index, 1);
+  }
+
+  fireToggle(element, 'beforetoggle', 'open', 'closed');
+  element.classList.remove(OPEN_CLASS);
+  fireToggle(element, 'toggle', 'open', 'closed');
+}
+
+function innermostContaining(node: Node): HTMLElement | undefined {
+  return [...autoStack].reverse().find(open => open.contains(node));
+}
+
+// Hide auto popovers stacked above `element`, or all of them
+function hideAbove(element?: HTMLElement): void {
+  const index = element ? autoStack.indexOf(element) : -1;
+  while (autoStack.length > index + 1) {
+    hide(autoStack[autoStack.length - 1]);
+  }
+}
+
+/**
+ * Browsers without the popover attribute usually lack CSS anchor
+ * positioning too, so a popover opened from a button is placed under it.
+ */
+function position(element: HTMLElement): void {
+  const invoker = invokers.get(element);
+  if (!invoker || CSS.supports('anchor-name', '--a')) return;
+
+  const bounds = invoker.getBoundingClientRect();
+  element.style.left = `${bounds.left}px`;
+  element.style.top = `${bounds.bottom + 4}px`;
+}
+
+function onClick(event: MouseEvent): void {
+  const target = event.target instanceof Element ? event.target : null;
+  const invoker = target?.closest<HTMLElement>('button[popovertarget], input[popovertarget]');
+  const popover = invoker && document.getElementById(invoker.getAttribute('popovertarget') ?? '');
+
+  if (invoker && popover && popoverType(popover)) {
+    const action = (invoker.getAttribute('popovertargetaction') ?? 'toggle') as PopoverAction;
+    invokers.set(popover, invoker);
+    if (action === 'show' || (action === 'toggle' && !isOpen(popover))) show(popover);
+    else hide(popover);
+    return;
+  }
+
+  // Light dismiss: a click outside closes auto popovers down to the one clicked in
+  const inside = target ? innermostContaining(target) : undefined;
+  hideAbove(inside);
+}
+
+function onKeyDown(event: KeyboardEvent): void {
+  if (event.key !== 'Escape' || autoStack.length === 0) return;
+  const top = autoStack[autoStack.length - 1];
+  hide(top);
+  invokers.get(top)?.focus();
+}
+
+export function install(): void {
+  if (Object.prototype.hasOwnProperty.call(HTMLElement.prototype, 'popover')) return;
+
+  Object.defineProperties(HTMLElement.prototype, {
+    popover: {
+      get(this: HTMLElement) {
+        return popoverType(this);
+      },
+      set(this: HTMLElement, value: string | null) {
+        if (value === null) this.removeAttribute('popover');
+        else this.setAttribute('popover', value);
+      },
+      configurable: true,
+    },
+    showPopover: {
+      value(this: HTMLElement) {
+        show(this);
+      },
+      configurable: true,
+      writable: true,
+    },
+    hidePopover: {
+      value(this: HTMLElement) {
+        hide(this);
+      },
+      configurable: true,
+      writable: true,
+    },
+    togglePopover: {
+      value(this: HTMLElement, force?: boolean) {
+        const open = force ?? !isOpen(this);
+        if (open) show(this);
+        else hide(this);
+        return open;
+      },
+      configurable: true,
+      writable: true,
+    },
+  });
+
+  const style = document.createElement('style');
+  style.dataset.polyfill = 'popover';
+  style.textContent = `[popover]:not(.${OPEN_CLASS}) { display: none; }\n[popover].${OPEN_CLASS} { z-index: 1000; }`;
+  document.head.append(style);
+
+  document.addEventListener('click', onClick);
+  document.addEventListener('keydown', onKeyDown);
+}
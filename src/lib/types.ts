@@ -4,6 +4,7 @@ export interface ApiResponse<T = any> {
   data: T;
   success: boolean;
   message?: string;
+  error?: ApiError;
   timestamp: number;
 }
 
@@ -13,19 +14,218 @@ export interface ApiError {
   details?: any;
 }
 
+// APIError.toJSON() output; plain errors have no code
+export interface SerializedError {
+  name: string;
+  message: string;
+  code?: string;
+  details?: any;
+  stack?: string;
+  cause?: SerializedError;
+  // HTTPError fields
+  http?: {
+    status: number;
+    statusText: string;
+    url: string;
+    method: string;
+    headers: Record<string, string>;
+    body: unknown;
+  };
+}
+
 // Data Management Types
 export interface OptimisticUpdate<T> {
   id: string;
   data: T;
   pending: boolean;
+  // Stored in the offline queue and waiting for connectivity
+  queued?: boolean;
   error?: ApiError;
 }
 
+export interface QueuedMutation<T = unknown> {
+  id: string;
+  endpoint: string;
+  method: 'POST' | 'PUT' | 'DELETE';
+  data: T;
+  createdAt: number;
+  // Sent with the first attempt and every replay, so the server can drop duplicates
+  idempotencyKey?: string;
+}
+
+export type OfflineQueueEvent<T = unknown> =
+  | { type: 'queued'; mutation: QueuedMutation<T> }
+  | { type: 'replayed'; mutation: QueuedMutation<T>; result: T }
+  | { type: 'conflict' | 'failed'; mutation: QueuedMutation<T>; error: ApiError };
+
+export interface OfflineQueueConfig {
+  dbName?: string;
+  syncTag?: string;
+}
+
 export interface FormState<T = any> {
   data: T;
   pending: boolean;
   error?: ApiError;
   success?: boolean;
+  // Progress of a multipart upload
+  upload?: UploadProgress;
+  // Parsed chunks of a streaming (NDJSON or text) response
+  chunks?: unknown[];
+  // Messages per field name, from the server or client-side validation
+  fieldErrors?: FieldErrors;
+  // Submitted values, so inputs can be repopulated after a failed submit
+  values?: FormValues;
+  // Non-blocking messages returned by the server
+  warnings?: string[];
+}
+
+export type FieldErrors = Record<string, string[]>;
+
+export type FormValues = Record<string, string | string[]>;
+
+export type FormBody = FormData | URLSearchParams | Record<string, unknown>;
+
+export type BodyEncoding = 'json' | 'urlencoded' | 'multipart';
+
+// Transport Types
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface UploadProgress {
+  loaded: number;
+  total: number;
+  percent: number;
+}
+
+export interface TransportRequest {
+  url: string;
+  method: HttpMethod;
+  headers: Record<string, string>;
+  body?: BodyInit | null;
+  signal?: AbortSignal;
+  onUploadProgress?: (progress: UploadProgress) => void;
+}
+
+export type Transport = (request: TransportRequest) => Promise<Response>;
+
+export type RequestInterceptor = (
+  request: TransportRequest
+) => TransportRequest | Promise<TransportRequest>;
+
+export interface ResponseInterceptorContext {
+  request: TransportRequest;
+  // Re-sends the request with a fresh auth token, skipping response interceptors
+  replay: () => Promise<Response>;
+}
+
+export type ResponseInterceptor = (
+  response: Response,
+  context: ResponseInterceptorContext
+) => Response | Promise<Response>;
+
+export interface RetryPolicy {
+  // Total attempts including the first one
+  maxAttempts?: number;
+  baseDelay?: number;
+  maxDelay?: number;
+  factor?: number;
+  jitter?: boolean;
+  retryOn?: number[];
+  respectRetryAfter?: boolean;
+  // Retry POST/PATCH too, sending an Idempotency-Key so the server can drop
+  // duplicates. Off by default: only GET, PUT and DELETE are retried.
+  idempotencyKey?: boolean;
+}
+
+// Query Cache Types
+export type QueryParams = Record<string, string | number | boolean | null | undefined>;
+
+export interface QueryState<T = any> {
+  data?: T;
+  error?: ApiError;
+  updatedAt: number;
+  isFetching: boolean;
+  isInvalidated: boolean;
+  // Stable per fetch so it can be passed to React's use()
+  promise?: Promise<T>;
+}
+
+export interface QueryCacheConfig {
+  maxEntries?: number;
+  staleTime?: number;
+  persist?: boolean | Storage;
+  refetchOnWindowFocus?: boolean;
+  refetchOnReconnect?: boolean;
+}
+
+export type AuthTokenProvider = () => string | null | undefined | Promise<string | null | undefined>;
+
+export interface DataClientConfig {
+  baseUrl?: string;
+  headers?: Record<string, string>;
+  getAuthToken?: AuthTokenProvider;
+  transport?: Transport;
+  requestInterceptors?: RequestInterceptor[];
+  responseInterceptors?: ResponseInterceptor[];
+  retry?: RetryPolicy | false;
+  queryCache?: QueryCacheConfig;
+  offlineQueue?: boolean | OfflineQueueConfig;
+}
+
+// Error Reporting Types
+export type BreadcrumbCategory = 'navigation' | 'fetch' | 'click' | 'custom';
+
+export interface Breadcrumb {
+  category: BreadcrumbCategory;
+  message: string;
+  timestamp: number;
+  data?: Record<string, unknown>;
+}
+
+export interface ErrorReport {
+  fingerprint: string;
+  code: string;
+  name: string;
+  message: string;
+  stack?: string;
+  details?: unknown;
+  // What the error was converted from, its own causes nested inside
+  cause?: SerializedError;
+  context?: Record<string, unknown>;
+  url?: string;
+  // Occurrences folded into this report, including suppressed repeats
+  count: number;
+  firstSeen: number;
+  lastSeen: number;
+  breadcrumbs: Breadcrumb[];
+}
+
+export interface ErrorReportBatch {
+  reports: ErrorReport[];
+  release?: string;
+  environment?: string;
+  sentAt: number;
+}
+
+export interface ErrorReporterConfig {
+  endpoint: string;
+  // Share of fingerprints that get reported, from 0 to 1
+  sampleRate?: number;
+  batchSize?: number;
+  flushInterval?: number;
+  maxBreadcrumbs?: number;
+  // Repeats of a sent fingerprint within this window are only counted
+  dedupeWindow?: number;
+  // Keys scrubbed in addition to the built-in password/token/cookie list
+  scrubKeys?: (string | RegExp)[];
+  // Error codes never reported; defaults to REQUEST_ABORTED, RETRY_ATTEMPT and VALIDATION_ERROR
+  ignoreCodes?: string[];
+  release?: string;
+  environment?: string;
+  // Return null to drop the report
+  beforeSend?: (report: ErrorReport) => ErrorReport | null;
+  // Replaces the default POST to `endpoint`; not used for pagehide beacons
+  send?: (batch: ErrorReportBatch) => Promise<void>;
 }
 
 // Web Platform API Types
@@ -49,6 +249,35 @@ export interface ResizeObserverEntry {
   devicePixelContentBoxSize: ResizeObserverSize[];
 }
 
+// Document head types
+export interface PageHead {
+  title?: string;
+  description?: string;
+  // og:image; relative URLs are resolved against `siteUrl`
+  image?: string;
+  // Canonical URL or path of the page
+  url?: string;
+}
+
+export interface HeadMetaTag {
+  title?: string;
+  name?: string;
+  property?: string;
+  content?: string;
+  [attribute: string]: string | undefined;
+}
+
+export interface HeadLinkTag {
+  rel: string;
+  href: string;
+  [attribute: string]: string | undefined;
+}
+
+export interface HeadTags {
+  meta: HeadMetaTag[];
+  links: HeadLinkTag[];
+}
+
 // PWA API Types
 export interface NotificationOptions {
   title: string;
@@ -91,5 +320,6 @@ export interface WorkerMessage<T = any> {
 export interface WorkerResponse<T = any> {
   id: string;
   result?: T;
-  error?: string;
+  // A message, or serializeError() output to keep the error's class and code
+  error?: string | SerializedError;
 }
\ No newline at end of file
@@ -1,11 +1,39 @@
 import { RouterProvider } from '@tanstack/react-router'
 import { StrictMode } from 'react'
-import { createRoot } from 'react-dom/client'
+import { createRoot, hydrateRoot } from 'react-dom/client'
 import './index.css'
-import { router } from './routes'
+import { headTags, router } from './routes'
+import { ErrorReporter } from './lib/api/error-reporting'
+import { ErrorHandler } from './lib/error-handling'
+import { FeatureDetection } from './lib/feature-detection'
+import { HeadAPI } from './lib/api/head'
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <RouterProvider router={router} />
-  </StrictMode>,
-)
+// e.g. VITE_ERROR_ENDPOINT=/__errors with `npm run collect-errors` running
+const errorEndpoint = import.meta.env.VITE_ERROR_ENDPOINT
+if (errorEndpoint) {
+  new ErrorReporter({ endpoint: errorEndpoint, environment: import.meta.env.MODE }).attach()
+}
+
+// Every failure ends up in ErrorHandler, so its listeners see them all
+ErrorHandler.captureGlobalErrors()
+
+// Title, description and Open Graph tags follow the current route
+router.subscribe('onResolved', () => HeadAPI.apply(headTags(router.state.matches)))
+
+// Fallbacks for missing features (popover, IntersectionObserver, ...) load first
+FeatureDetection.applyPolyfills().then(async () => {
+  const container = document.getElementById('root')!
+  const app = (
+    <StrictMode>
+      <RouterProvider router={router} />
+    </StrictMode>
+  )
+
+  // Pages from `npm run build` are prerendered; match them before hydrating
+  if (container.firstElementChild) {
+    await router.load()
+    hydrateRoot(container, app, ErrorHandler.reactRootOptions())
+  } else {
+    createRoot(container, ErrorHandler.reactRootOptions()).render(app)
+  }
+})
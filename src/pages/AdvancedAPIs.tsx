@@ -23,6 +23,9 @@ import {
   CodeBlock
 } from '../components/ui';
 import { Icon } from '@iconify/react';
+import { DataManagementAPI } from '../lib/api/data-management';
+import { createMockTransport } from '../lib/api/transport';
+import type { ValidationRules } from '../lib/error-handling';
 
 interface DemoItem {
   id: string;
@@ -31,6 +34,48 @@ interface DemoItem {
   timestamp: number;
 }
 
+// Stands in for a server-side uniqueness lookup
+function isTitleTaken(title: string, signal?: AbortSignal): Promise<boolean> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => resolve(title.trim().toLowerCase() === 'initial item'), 400);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('The check was aborted', 'AbortError'));
+    }, { once: true });
+  });
+}
+
+const itemRules: ValidationRules = {
+  title: {
+    required: true,
+    minLength: 3,
+    maxLength: 60,
+    asyncValidator: async (value, { signal }) =>
+      await isTitleTaken(String(value), signal) ? 'An item with this title already exists' : null,
+    debounce: 300
+  },
+  description: { required: true, minLength: 10, maxLength: 200 }
+};
+
+// In-memory backend so the demos run without a server
+const demoClient = new DataManagementAPI({
+  transport: createMockTransport({
+    'POST /api/items': (request) => ({ body: request.json(), delay: 500 }),
+    'PUT /api/items/*': (request) => ({ body: request.json(), delay: 500 }),
+    'DELETE /api/items/*': () => ({ status: 204, delay: 500 }),
+    'POST /api/form-submit': (request) => ({
+      body: {
+        ...Object.fromEntries(request.body as FormData),
+        id: crypto.randomUUID(),
+        timestamp: Date.now()
+      },
+      delay: 800
+    }),
+  }),
+  // Go offline in devtools to see mutations queue up and replay on reconnect
+  offlineQueue: { dbName: 'advanced-apis-demo' }
+});
+
 export function AdvancedAPIs() {
   const [items, setItems] = useState<DemoItem[]>([
     {
@@ -42,16 +87,37 @@ export function AdvancedAPIs() {
   ]);
 
   // React 19 Optimistic Updates Demo
-  const { data: optimisticItems, mutate } = useOptimisticMutation<DemoItem>(
+  const { data: optimisticItems, mutate, error: mutationError } = useOptimisticMutation<DemoItem>(
     items,
-    '/api/items'
+    '/items',
+    { client: demoClient }
   );
 
   // React 19 Advanced Form Demo
-  const { state: formState, dispatch: submitForm, isPending, isSuccess, error } = useAdvancedForm<DemoItem>(
-    '/api/form-submit',
-    { data: {} as DemoItem, pending: false },
-    { optimistic: true }
+  const {
+    state: formState,
+    dispatch: submitForm,
+    isPending: isFormPending,
+    isSuccess,
+    error: formError,
+    fieldErrors,
+    getFieldProps,
+    getErrorProps
+  } = useAdvancedForm<DemoItem | null>(
+    '/form-submit',
+    { data: null, pending: false },
+    {
+      optimistic: true,
+      client: demoClient,
+      validation: itemRules,
+      validateOn: 'blur',
+      mapOptimistic: (formData, tempId) => ({
+        id: tempId,
+        title: String(formData.get('title') ?? ''),
+        description: String(formData.get('description') ?? ''),
+        timestamp: Date.now()
+      })
+    }
   );
 
   // View Transitions Demo
@@ -122,10 +188,9 @@ export function AdvancedAPIs() {
   };
 
   const handleShare = async () => {
+    // Title and URL come from the route's head metadata
     await share({
-      title: 'Advanced APIs Demo',
-      text: 'Check out these modern web APIs!',
-      url: window.location.href
+      text: 'Check out these modern web APIs!'
     });
   };
 
@@ -195,6 +260,12 @@ export function AdvancedAPIs() {
                       Add Item Optimistically
                     </Button>
 
+                    {mutationError && (
+                      <Badge variant="error" size="sm">
+                        Rolled back: {mutationError.message}
+                      </Badge>
+                    )}
+
                     <Stack gap="sm">
                       {optimisticItems.map((item) => (
                         <Card 
@@ -227,13 +298,99 @@ export function AdvancedAPIs() {
                 </Card.Header>
                 <Card.Content>
                   <CodeBlock language="typescript">
-{`const { data, mutate } = useOptimisticMutation(
+{`const { data, mutate, error } = useOptimisticMutation(
   initialData,
-  '/api/endpoint'
+  '/items'
 );
 
-// Instant UI update
-mutate(newItem);`}
+// Instant UI update, rolled back if the request fails
+await mutate(newItem);`}
+                  </CodeBlock>
+                </Card.Content>
+              </Card>
+            </Grid>
+          </Section.Content>
+        </Container>
+      </Section>
+
+      {/* React 19 Form Actions */}
+      <Section variant="feature" size="lg">
+        <Container size="wide">
+          <Section.Header>
+            <Badge variant="primary">
+              React 19
+            </Badge>
+            <Section.Title size="xl">Validated Form Actions</Section.Title>
+            <Section.Subtitle>
+              Rules run before the request; errors are announced next to each field
+            </Section.Subtitle>
+          </Section.Header>
+
+          <Section.Content>
+            <Grid columns="auto-fit" minWidth="350px" gap="2xl">
+              <Card variant="feature" size="lg">
+                <Card.Header>
+                  <Card.Title>Create an Item</Card.Title>
+                </Card.Header>
+                <Card.Content>
+                  <form action={submitForm} className="api-form" noValidate>
+                    <div className="api-form-field">
+                      <label htmlFor="item-title" className="api-form-label">Title</label>
+                      <input id="item-title" type="text" className="api-form-input" {...getFieldProps('title')} />
+                      <p className="api-form-error" {...getErrorProps('title')}>
+                        {fieldErrors.title?.join(' ')}
+                      </p>
+                    </div>
+
+                    <div className="api-form-field">
+                      <label htmlFor="item-description" className="api-form-label">Description</label>
+                      <textarea id="item-description" rows={3} className="api-form-input" {...getFieldProps('description')} />
+                      <p className="api-form-error" {...getErrorProps('description')}>
+                        {fieldErrors.description?.join(' ')}
+                      </p>
+                    </div>
+
+                    <Button type="submit" icon="mdi:send" loading={isFormPending} disabled={isFormPending} fullWidth>
+                      {isFormPending ? 'Saving...' : 'Save Item'}
+                    </Button>
+
+                    {formState.data && (isFormPending || isSuccess) && (
+                      <Cluster gap="sm" align="center">
+                        <span className="font-medium">{formState.data.title}</span>
+                        <Badge variant={isFormPending ? 'warning' : 'success'} size="sm">
+                          {isFormPending ? 'Saving' : 'Saved'}
+                        </Badge>
+                      </Cluster>
+                    )}
+
+                    {formError && !isFormPending && (
+                      <Badge variant="error" size="sm">
+                        {formError.message}
+                      </Badge>
+                    )}
+                  </form>
+                </Card.Content>
+              </Card>
+
+              <Card variant="info" size="lg">
+                <Card.Header>
+                  <Card.Title>Implementation</Card.Title>
+                </Card.Header>
+                <Card.Content>
+                  <CodeBlock language="typescript">
+{`const { state, dispatch, fieldErrors, getFieldProps, getErrorProps } =
+  useAdvancedForm('/form-submit', { data: null, pending: false }, {
+    validation: {
+      title: { required: true, minLength: 3 },
+      description: { required: true, minLength: 10 }
+    },
+    validateOn: 'blur'
+  });
+
+<form action={dispatch} noValidate>
+  <input {...getFieldProps('title')} />
+  <p {...getErrorProps('title')}>{fieldErrors.title}</p>
+</form>`}
                   </CodeBlock>
                 </Card.Content>
               </Card>
@@ -339,11 +496,9 @@ mutate(newItem);`}
                   <CodeBlock language="typescript">
 {`const { share, canShare } = useWebShare();
 
-await share({
-  title: 'My App',
-  text: 'Check this out!',
-  url: window.location.href
-});`}
+// title, text and url default to the page's <head> metadata
+await share();
+await share({ text: 'Check this out!' });`}
                   </CodeBlock>
                 </Card.Content>
               </Card>
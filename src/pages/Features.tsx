@@ -1,7 +1,7 @@
 import { Link } from '@tanstack/react-router'
 import { Icon } from '@iconify/react'
 import { useState, useEffect } from 'react'
-import { getAPISupport } from '../lib'
+import { FeatureDetection, useAPISupport, type FeatureName } from '../lib'
 import { 
   Card, 
   Section, 
@@ -144,7 +144,7 @@ function FeatureCard({ feature, className }: { feature: FeatureCard; className?:
 }
 
 function APISupport() {
-  const apiSupport = getAPISupport()
+  const apiSupport = useAPISupport()
   
   // Split APIs into two bands for the moving effect
   const apiEntries = Object.entries(apiSupport)
@@ -186,7 +186,7 @@ function APISupport() {
                       className="api-badge__icon"
                     />
                     <span className="api-badge__text">
-                      {api.replace(/([A-Z])/g, ' $1').trim()}
+                      {FeatureDetection.describe(api as FeatureName).name}
                     </span>
                     {supported && <div className="api-badge__glow"></div>}
                   </div>
@@ -207,7 +207,7 @@ function APISupport() {
                       className="api-badge__icon"
                     />
                     <span className="api-badge__text">
-                      {api.replace(/([A-Z])/g, ' $1').trim()}
+                      {FeatureDetection.describe(api as FeatureName).name}
                     </span>
                     {supported && <div className="api-badge__glow"></div>}
                   </div>
@@ -237,7 +237,7 @@ function APISupport() {
 }
 
 function HeroStats() {
-  const apiSupport = getAPISupport()
+  const apiSupport = useAPISupport()
   const totalSupported = Object.values(apiSupport).filter(Boolean).length
   const totalApis = Object.keys(apiSupport).length
   const supportPercentage = Math.round((totalSupported / totalApis) * 100)
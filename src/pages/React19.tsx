@@ -1,4 +1,4 @@
-import { useState, useRef, useOptimistic, useActionState, startTransition } from 'react';
+import { Suspense, use, useState, useRef, useOptimistic, startTransition } from 'react';
 import { Icon } from '@iconify/react';
 import { 
   Card, 
@@ -11,6 +11,26 @@ import {
   Cluster,
   CodeBlock
 } from '../components/ui'
+import { APIErrorBoundary, type ValidationRules } from '../lib/error-handling'
+import { invalidateResource, resource } from '../lib/api/resource'
+import { useAdvancedForm } from '../hooks/useAdvancedAPIs'
+import {
+  FEEDBACK_ENDPOINT,
+  HIGHLIGHTS_ENDPOINT,
+  react19Client,
+  type FeedbackReceipt,
+  type ReleaseHighlight
+} from './react19-resources'
+
+const feedbackRules: ValidationRules = {
+  title: { required: true, requiredMessage: 'Please tell us your name', minLength: 2 },
+  description: {
+    required: true,
+    requiredMessage: 'Please write a message',
+    minLength: 10,
+    minLengthMessage: 'Your message should be at least 10 characters'
+  }
+};
 
 interface TodoItem {
   id: string;
@@ -19,6 +39,26 @@ interface TodoItem {
   timestamp: number;
 }
 
+// Suspends via use() until the preloaded highlights resolve
+function ReleaseHighlights() {
+  const highlights = use(resource<ReleaseHighlight[]>(HIGHLIGHTS_ENDPOINT, { client: react19Client }));
+
+  return (
+    <Stack gap="md">
+      {highlights.map((highlight) => (
+        <Card key={highlight.id} variant="default" size="sm">
+          <Card.Header icon={highlight.icon}>
+            <Card.Title>{highlight.title}</Card.Title>
+          </Card.Header>
+          <Card.Content>
+            <Card.Description>{highlight.description}</Card.Description>
+          </Card.Content>
+        </Card>
+      ))}
+    </Stack>
+  );
+}
+
 export function React19() {
   const [todos, setTodos] = useState<TodoItem[]>([
     {
@@ -58,27 +98,28 @@ export function React19() {
     }
   );
 
-  // React 19 useActionState demo - proper pattern
-  async function submitMessage(prevState: { success: boolean; message?: string; error?: string }, formData: FormData) {
-    try {
-      // Simulate API delay
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      const title = formData.get('title') as string;
-      const description = formData.get('description') as string;
-      
-      if (!title || !description) {
-        return { error: 'Please fill in all fields', success: false };
-      }
-      
-      // Simulate successful submission
-      return { message: 'Feedback submitted successfully!', success: true };
-    } catch (error) {
-      return { error: 'Failed to submit feedback', success: false };
-    }
-  }
+  // React 19 useActionState demo: validated on blur, then sent to the mock API
+  const {
+    state,
+    dispatch: submitAction,
+    isPending,
+    fieldErrors,
+    getFieldProps,
+    getErrorProps
+  } = useAdvancedForm<FeedbackReceipt | null>(
+    FEEDBACK_ENDPOINT,
+    { data: null, pending: false },
+    { client: react19Client, validation: feedbackRules, validateOn: 'blur' }
+  );
+  const [highlightsVersion, setHighlightsVersion] = useState(0);
 
-  const [state, submitAction, isPending] = useActionState(submitMessage, { success: false });
+  function reloadHighlights() {
+    // Inside a transition the current list stays visible while refetching
+    startTransition(() => {
+      invalidateResource(HIGHLIGHTS_ENDPOINT, { client: react19Client });
+      setHighlightsVersion(version => version + 1);
+    });
+  }
   const [isAddingTodo, setIsAddingTodo] = useState(false);
 
   async function addTodo() {
@@ -410,20 +451,24 @@ try {
                     <h3 className="react19-form-form-title">Contact Form</h3>
                     <p className="react19-form-form-subtitle">Experience the future of form handling</p>
                     
-                    <form action={submitAction} className="react19-form-form">
+                    <form action={submitAction} className="react19-form-form" noValidate>
                       <div className="react19-form-field">
                         <div className="react19-form-input-group">
                           <Icon icon="mdi:account" className="react19-form-input-icon" />
                           <input 
                             id="title"
-                            name="title"
                             type="text" 
                             placeholder="Your name"
+                            aria-label="Your name"
                             className="react19-form-input"
                             required
+                            {...getFieldProps('title')}
                           />
                           <div className="react19-form-input-focus"></div>
                         </div>
+                        <p className="react19-form-field-error" {...getErrorProps('title')}>
+                          {fieldErrors.title?.join(' ')}
+                        </p>
                       </div>
 
                       <div className="react19-form-field">
@@ -431,14 +476,18 @@ try {
                           <Icon icon="mdi:message-text" className="react19-form-textarea-icon" />
                           <textarea 
                             id="description"
-                            name="description"
                             placeholder="Tell us about your experience with React 19..."
+                            aria-label="Your message"
                             rows={4}
                             className="react19-form-textarea"
                             required
+                            {...getFieldProps('description')}
                           />
                           <div className="react19-form-textarea-focus"></div>
                         </div>
+                        <p className="react19-form-field-error" {...getErrorProps('description')}>
+                          {fieldErrors.description?.join(' ')}
+                        </p>
                       </div>
 
                       <Button 
@@ -454,17 +503,17 @@ try {
                         {isPending ? 'Sending message...' : 'Send Message'}
                       </Button>
 
-                      {state.success && state.message && (
+                      {state.success && state.data && (
                         <div className="react19-form-success">
                           <Icon icon="mdi:check-circle" className="react19-form-success-icon" />
-                          <span className="react19-form-success-text">{state.message}</span>
+                          <span className="react19-form-success-text">{state.data.message}</span>
                         </div>
                       )}
 
                       {state.error && (
                         <div className="react19-form-error">
                           <Icon icon="mdi:alert-circle" className="react19-form-error-icon" />
-                          <span className="react19-form-error-text">{state.error}</span>
+                          <span className="react19-form-error-text">{state.error.message}</span>
                         </div>
                       )}
                     </form>
@@ -480,44 +529,25 @@ try {
                 </div>
                 <div className="react19-form-code-content">
                   <CodeBlock language="typescript">
-{`// 🎯 React 19 useActionState Hook
-async function submitMessage(prevState, formData) {
-  const name = formData.get('title')
-  const message = formData.get('description')
-  
-  // Built-in validation
-  if (!name || !message) {
-    return { 
-      error: 'Please fill in all fields', 
-      success: false 
-    }
-  }
-  
-  try {
-    // Automatic server handling
-    await sendMessage({ name, message })
-    return { 
-      message: 'Thank you! Message sent successfully!', 
-      success: true 
-    }
-  } catch (error) {
-    return { 
-      error: 'Failed to send message. Please try again.', 
-      success: false 
-    }
-  }
+{`// 🎯 Validation rules run before the network call
+const rules = {
+  title: { required: true, minLength: 2 },
+  description: { required: true, minLength: 10 }
 }
 
-// ✨ One hook handles everything
-const [state, submitAction, isPending] = useActionState(
-  submitMessage, 
-  { success: false }
-)
-
-// 🚀 Zero boilerplate form
-<form action={submitAction}>
-  <input name="title" required />
-  <textarea name="description" required />
+// ✨ useActionState underneath, plus field errors
+const { state, dispatch, isPending, fieldErrors, getFieldProps, getErrorProps } =
+  useAdvancedForm('/feedback', { data: null, pending: false }, {
+    validation: rules,
+    validateOn: 'blur'
+  })
+
+// 🚀 aria-invalid and aria-describedby wired up for you
+<form action={dispatch} noValidate>
+  <input {...getFieldProps('title')} />
+  <p {...getErrorProps('title')}>{fieldErrors.title}</p>
+  <textarea {...getFieldProps('description')} />
+  <p {...getErrorProps('description')}>{fieldErrors.description}</p>
   <button disabled={isPending}>Submit</button>
 </form>`}
                   </CodeBlock>
@@ -579,6 +609,68 @@ const [state, submitAction, isPending] = useActionState(
         </Container>
       </Section>
 
+      {/* Suspense Data Fetching */}
+      <Section variant="feature" size="lg">
+        <Container size="wide">
+          <Section.Header centered>
+            <Badge variant="info">
+              use() + Suspense
+            </Badge>
+            <Section.Title size="xl">Suspense Data Fetching</Section.Title>
+            <Section.Subtitle>
+              Data preloaded by the route loader and read with use() while Suspense shows a fallback
+            </Section.Subtitle>
+          </Section.Header>
+
+          <Section.Content>
+            <Grid columns="auto-fit" minWidth="350px" gap="2xl">
+              <Card variant="feature" size="lg">
+                <Card.Header>
+                  <Card.Title>Release Highlights</Card.Title>
+                </Card.Header>
+                <Card.Content>
+                  <Stack gap="lg">
+                    <APIErrorBoundary resetKeys={[highlightsVersion]} onRetry={reloadHighlights}>
+                      <Suspense fallback={<Badge variant="warning">Loading highlights...</Badge>}>
+                        <ReleaseHighlights key={highlightsVersion} />
+                      </Suspense>
+                    </APIErrorBoundary>
+                    <Button onClick={reloadHighlights} variant="secondary" icon="mdi:refresh" fullWidth>
+                      Refetch
+                    </Button>
+                  </Stack>
+                </Card.Content>
+              </Card>
+
+              <Card variant="info" size="lg">
+                <Card.Header>
+                  <Card.Title>Implementation</Card.Title>
+                </Card.Header>
+                <Card.Content>
+                  <CodeBlock language="typescript">
+{`// Route loader starts the request early
+loader: () => { preloadResource('/react19/highlights') }
+
+// Component reads the same stable promise
+function ReleaseHighlights() {
+  const highlights = use(resource('/react19/highlights'))
+  return highlights.map(h => <Card key={h.id} {...h} />)
+}
+
+// Resets when the version changes; "Try Again" refetches first
+<APIErrorBoundary resetKeys={[version]} onRetry={refetch}>
+  <Suspense fallback={<Loading />}>
+    <ReleaseHighlights key={version} />
+  </Suspense>
+</APIErrorBoundary>`}
+                  </CodeBlock>
+                </Card.Content>
+              </Card>
+            </Grid>
+          </Section.Content>
+        </Container>
+      </Section>
+
       {/* Server Actions - The Game Changer */}
       <Section variant="feature" size="lg">
         <Container size="wide">
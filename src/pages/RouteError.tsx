@@ -0,0 +1,24 @@
+import { useRouter, useRouterState, type ErrorComponentProps } from '@tanstack/react-router'
+import { Container } from '../components/ui'
+import { APIErrorBoundary } from '../lib/error-handling'
+
+// Loader and render errors for every route, shown through APIErrorBoundary so
+// they get its fallbacks, retry and reset on navigation
+export function RouteError({ error, reset }: ErrorComponentProps) {
+  const router = useRouter()
+  const href = useRouterState({ select: state => state.location.href })
+
+  return (
+    <div className="page-transition-container">
+      <Container size="narrow">
+        <APIErrorBoundary
+          error={error}
+          resetKeys={[href]}
+          // Re-runs the loaders, which is where most route errors come from
+          onRetry={() => router.invalidate()}
+          onReset={reset}
+        />
+      </Container>
+    </div>
+  )
+}
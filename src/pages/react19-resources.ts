@@ -0,0 +1,69 @@
+// Mock backend for the /react19 Suspense data fetching demo
+import { DataManagementAPI } from '../lib/api/data-management';
+import { createMockTransport } from '../lib/api/transport';
+import { preloadResource } from '../lib/api/resource';
+
+export interface ReleaseHighlight {
+  id: string;
+  icon: string;
+  title: string;
+  description: string;
+}
+
+export const HIGHLIGHTS_ENDPOINT = '/react19/highlights';
+export const FEEDBACK_ENDPOINT = '/react19/feedback';
+
+export interface FeedbackReceipt {
+  id: string;
+  message: string;
+}
+
+const highlights: ReleaseHighlight[] = [
+  {
+    id: 'actions',
+    icon: 'mdi:server',
+    title: 'Actions',
+    description: 'Async transitions that handle pending state, errors and optimistic updates'
+  },
+  {
+    id: 'use',
+    icon: 'mdi:pause-circle',
+    title: 'use()',
+    description: 'Read promises and context during render, suspending until data is ready'
+  },
+  {
+    id: 'metadata',
+    icon: 'mdi:tag-text',
+    title: 'Document Metadata',
+    description: 'Render <title> and <meta> tags from any component'
+  }
+];
+
+export const react19Client = new DataManagementAPI({
+  transport: createMockTransport({
+    'GET /api/react19/highlights': () => ({ body: highlights, delay: 1200 }),
+    // Rejects one reserved name so server-side field errors can be seen too
+    'POST /api/react19/feedback': (request) => {
+      const formData = request.body as FormData;
+      if (String(formData.get('title')).trim().toLowerCase() === 'admin') {
+        return {
+          status: 422,
+          body: { message: 'Some fields need attention', errors: { title: 'That name is reserved' } },
+          delay: 600,
+        };
+      }
+      return {
+        body: { id: crypto.randomUUID(), message: 'Feedback submitted successfully!' },
+        delay: 1000,
+      };
+    },
+  })
+});
+
+/**
+ * Kick off the highlights request from the route loader so it overlaps
+ * with code loading instead of starting on first render
+ */
+export function preloadHighlights(): Promise<void> {
+  return preloadResource(HIGHLIGHTS_ENDPOINT, { client: react19Client });
+}
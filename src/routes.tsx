@@ -1,23 +1,71 @@
-import { createRootRoute, createRoute, createRouter } from '@tanstack/react-router'
+import { createRootRoute, createRoute, createRouter, type AnyRouteMatch, type RouterHistory } from '@tanstack/react-router'
 import { RootComponent } from './components/RootComponent'
 import { About } from './pages/About'
 import { Home } from './pages/Home'
 import { AdvancedAPIs } from './pages/AdvancedAPIs'
 import { Features } from './pages/Features'
 import { React19 } from './pages/React19'
+import { preloadHighlights } from './pages/react19-resources'
 import { DesignSystem } from './pages/DesignSystem'
 import ExampleRefactored from './pages/ExampleRefactored'
 import { NotFound } from './pages/NotFound'
+import { RouteError } from './pages/RouteError'
 import { ModernCSSDemo } from './components/ModernCSSDemo'
 import { TypeScript } from './pages/TypeScript'
 import { Performance } from './pages/Performance'
 import { Accessibility } from './pages/Accessibility'
 import { ContainerQueries } from './pages/ContainerQueries'
+import { HeadAPI } from './lib/api/head'
+import type { HeadLinkTag, HeadMetaTag, HeadTags, PageHead } from './lib/types'
+
+const SITE_NAME = 'React 19 Showcase'
+// Origin for canonical and Open Graph URLs, e.g. https://example.com
+const SITE_URL = import.meta.env.VITE_SITE_URL
+
+/**
+ * Head metadata for a page route. The title gets the site name appended
+ * and, when SITE_URL is set, the canonical URL defaults to the route's
+ * path; anything left out falls back to the root route's defaults.
+ */
+function pageHead({ title, ...head }: PageHead) {
+  return ({ match }: { match: { pathname: string } }) => HeadAPI.tags({
+    // Relative canonical and og:url values are invalid, so leave them out
+    url: SITE_URL ? match.pathname : undefined,
+    ...head,
+    title: title && `${title} | ${SITE_NAME}`,
+  }, { siteUrl: SITE_URL })
+}
+
+/**
+ * Head tags of the matched routes merged root first, so pages override
+ * the defaults
+ */
+export function headTags(matches: AnyRouteMatch[]): HeadTags {
+  return HeadAPI.merge(matches.map(match => ({
+    meta: match.meta as HeadMetaTag[] | undefined,
+    links: match.links as HeadLinkTag[] | undefined,
+  })))
+}
 
 // Create root route
 const rootRoute = createRootRoute({
   component: RootComponent,
   notFoundComponent: NotFound,
+  errorComponent: RouteError,
+  head: () => {
+    const defaults = HeadAPI.tags({
+      title: SITE_NAME,
+      description: 'Learn modern React 19 development with interactive demos, a pure CSS design system and web platform APIs.',
+    }, { siteUrl: SITE_URL })
+    return {
+      ...defaults,
+      meta: [
+        ...defaults.meta,
+        { property: 'og:site_name', content: SITE_NAME },
+        { property: 'og:type', content: 'website' },
+      ],
+    }
+  },
 })
 
 // Create index route
@@ -25,6 +73,10 @@ const indexRoute = createRoute({
   getParentRoute: () => rootRoute,
   path: '/',
   component: Home,
+  head: pageHead({
+    title: 'Modern React Development',
+    description: 'Learn modern React 19 development with the React Compiler, Actions, Suspense and pure CSS.',
+  }),
 })
 
 // Create about route
@@ -32,6 +84,10 @@ const aboutRoute = createRoute({
   getParentRoute: () => rootRoute,
   path: '/about',
   component: About,
+  head: pageHead({
+    title: 'About',
+    description: 'How this React 19 application approaches modern standards, accessibility and performance.',
+  }),
 })
 
 // Create features overview route
@@ -39,6 +95,10 @@ const featuresRoute = createRoute({
   getParentRoute: () => rootRoute,
   path: '/features',
   component: Features,
+  head: pageHead({
+    title: 'Interactive Demos',
+    description: 'Live demos of React 19 features and a support table for the web platform APIs in your browser.',
+  }),
 })
 
 // Create React 19 showcase route
@@ -46,6 +106,14 @@ const react19Route = createRoute({
   getParentRoute: () => rootRoute,
   path: '/react19',
   component: React19,
+  head: pageHead({
+    title: 'React 19 Features',
+    description: 'React 19 Actions, useOptimistic, use() and Suspense data fetching, with working examples.',
+  }),
+  // Not awaited: the page renders right away and suspends on the data
+  loader: () => {
+    preloadHighlights()
+  },
 })
 
 // Create design system route  
@@ -53,6 +121,10 @@ const designRoute = createRoute({
   getParentRoute: () => rootRoute,
   path: '/design',
   component: DesignSystem,
+  head: pageHead({
+    title: 'Design System',
+    description: 'Colour tokens, typography, spacing and components of the pure CSS design system.',
+  }),
 })
 
 // Create advanced APIs route
@@ -60,6 +132,10 @@ const advancedAPIsRoute = createRoute({
   getParentRoute: () => rootRoute,
   path: '/apis',
   component: AdvancedAPIs,
+  head: pageHead({
+    title: 'Advanced Web APIs',
+    description: 'View Transitions, Web Share, notifications, web workers and speculation rules in React.',
+  }),
 })
 
 // Create example refactored route
@@ -67,6 +143,10 @@ const exampleRoute = createRoute({
   getParentRoute: () => rootRoute,
   path: '/example',
   component: ExampleRefactored,
+  head: pageHead({
+    title: 'Composable Components',
+    description: 'A page built from the composable Section, Container, Grid and Card components.',
+  }),
 })
 
 // Create modern CSS demo route
@@ -74,6 +154,10 @@ const modernCSSRoute = createRoute({
   getParentRoute: () => rootRoute,
   path: '/modern-css',
   component: ModernCSSDemo,
+  head: pageHead({
+    title: 'Modern CSS',
+    description: 'Cascade layers, nesting, :has(), oklch colours and other modern CSS without a framework.',
+  }),
 })
 
 // Create TypeScript route
@@ -81,6 +165,10 @@ const typeScriptRoute = createRoute({
   getParentRoute: () => rootRoute,
   path: '/typescript',
   component: TypeScript,
+  head: pageHead({
+    title: 'TypeScript Integration',
+    description: 'Type-safe React 19 development: typed hooks, components, routes and configuration.',
+  }),
 })
 
 // Create Performance route
@@ -88,6 +176,10 @@ const performanceRoute = createRoute({
   getParentRoute: () => rootRoute,
   path: '/performance',
   component: Performance,
+  head: pageHead({
+    title: 'Performance',
+    description: 'Core Web Vitals, automatic memoization with the React Compiler and other optimization techniques.',
+  }),
 })
 
 // Create Accessibility route
@@ -95,6 +187,10 @@ const accessibilityRoute = createRoute({
   getParentRoute: () => rootRoute,
   path: '/accessibility',
   component: Accessibility,
+  head: pageHead({
+    title: 'Accessibility',
+    description: 'Building inclusive experiences that work for everyone, following WCAG 2.2 guidelines.',
+  }),
 })
 
 // Create Container Queries route
@@ -102,6 +198,10 @@ const containerQueriesRoute = createRoute({
   getParentRoute: () => rootRoute,
   path: '/container-queries',
   component: ContainerQueries,
+  head: pageHead({
+    title: 'Container Queries',
+    description: 'Components that adapt to their container rather than the viewport, using CSS container queries.',
+  }),
 })
 
 // Create route tree
@@ -120,12 +220,25 @@ const routeTree = rootRoute.addChildren([
   containerQueriesRoute
 ])
 
+/**
+ * A router per prerendered page, each with its own memory history; the
+ * browser uses the shared `router` below
+ */
+export function createAppRouter(options: { history?: RouterHistory } = {}) {
+  return createRouter({
+    routeTree,
+    history: options.history,
+    // Child routes fail inside the root layout, keeping the navigation usable
+    defaultErrorComponent: RouteError,
+  })
+}
+
 // Create router
-export const router = createRouter({ routeTree })
+export const router = createAppRouter()
 
 // Register router for type safety
 declare module '@tanstack/react-router' {
   interface Register {
-    router: typeof router
+    router: ReturnType<typeof createAppRouter>
   }
 }
@@ -0,0 +1,44 @@
+// Minimal React rendering for hook and component tests
+import { act, type ReactNode } from 'react';
+import { createRoot, type Root } from 'react-dom/client';
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+const mounted = new Set<{ root: Root; container: HTMLElement }>();
+
+/**
+ * Render into a fresh container attached to the document. Call `cleanup()`
+ * after each test to unmount everything rendered.
+ */
+export async function render(element: ReactNode) {
+  const container = document.createElement('div');
+  document.body.append(container);
+  const root = createRoot(container);
+  mounted.add({ root, container });
+
+  await act(async () => {
+    root.render(element);
+  });
+
+  return {
+    container,
+    rerender: (next: ReactNode) => act(async () => {
+      root.render(next);
+    }),
+  };
+}
+
+export function cleanup(): void {
+  mounted.forEach(({ root, container }) => {
+    act(() => root.unmount());
+    container.remove();
+  });
+  mounted.clear();
+}
+
+/**
+ * Let pending requests, timers and the re-renders they cause settle
+ */
+export async function settle(ms = 30): Promise<void> {
+  await act(() => new Promise(resolve => setTimeout(resolve, ms)));
+}
@@ -1 +1,8 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Collector URL for ErrorReporter in production builds
+  readonly VITE_ERROR_ENDPOINT?: string
+  // Public origin of the site, for canonical and Open Graph URLs
+  readonly VITE_SITE_URL?: string
+}
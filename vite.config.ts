@@ -1,8 +1,9 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vite.dev/config/
-export default defineConfig(() => ({
+export default defineConfig(({ isSsrBuild }) => ({
   plugins: [
     react({
       babel: {
@@ -27,7 +28,8 @@ export default defineConfig(() => ({
     target: 'baseline-widely-available',
     cssCodeSplit: true,
     rollupOptions: {
-      output: {
+      // The prerender bundle (src/entry-server.tsx) keeps dependencies external
+      output: isSsrBuild ? {} : {
         manualChunks: {
           vendor: ['react', 'react-dom'],
           router: ['@tanstack/react-router']
@@ -35,10 +37,21 @@ export default defineConfig(() => ({
       }
     }
   },
+  test: {
+    environment: 'jsdom',
+    include: ['src/**/*.test.{ts,tsx}'],
+  },
   server: {
     port: 5173,
     open: true,
     historyApiFallback: true,
+    proxy: {
+      // Local error collector, started with `npm run collect-errors`
+      '/__errors': {
+        target: 'http://localhost:4319',
+        rewrite: () => '/errors',
+      },
+    },
     warmup: {
       clientFiles: ['./src/components/*.tsx']
     }